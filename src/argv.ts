@@ -0,0 +1,441 @@
+// Characters that keep their special meaning inside double quotes
+const DOUBLE_QUOTE_ESCAPABLE = new Set(['"', "\\", "$", "`"]);
+
+/**
+ * Split a command line into an argv array the way a POSIX shell would,
+ * honouring single quotes, double quotes and backslash escapes.
+ * No expansion (variables, globs, substitutions) is performed.
+ */
+export function parseCommandLine(command: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inToken = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === "\\" && i + 1 < command.length) {
+        const next = command[i + 1];
+        if (DOUBLE_QUOTE_ESCAPABLE.has(next)) {
+          current += next;
+          i++;
+        } else if (next === "\n") {
+          i++;
+        } else {
+          current += char;
+        }
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inToken = true;
+    } else if (char === "\\") {
+      if (i + 1 >= command.length) {
+        throw new Error("Unexpected trailing backslash in command");
+      }
+      const next = command[i + 1];
+      i++;
+      // An escaped newline is a line continuation
+      if (next !== "\n") {
+        current += next;
+        inToken = true;
+      }
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        args.push(current);
+        current = "";
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(
+      `Unterminated ${quote === "'" ? "single" : "double"} quote in command`,
+    );
+  }
+
+  if (inToken) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * Quote an argument so parseCommandLine reads it back unchanged.
+ */
+export function quoteArgument(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Find shell control operators (command chaining, pipes, substitutions) that
+ * appear outside of quotes. Operators inside single quotes are literal; inside
+ * double quotes only backticks and $() are still active in a real shell.
+ */
+export function findShellOperators(command: string): string[] {
+  const found = new Set<string>();
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    const next = command[i + 1];
+
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      continue;
+    }
+
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      found.add("`");
+      continue;
+    }
+
+    if (char === "$" && next === "(") {
+      found.add("$()");
+      i++;
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === ";") {
+      found.add(";");
+    } else if (char === "&" && next === "&") {
+      found.add("&&");
+      i++;
+    } else if (char === "|" && next === "|") {
+      found.add("||");
+      i++;
+    } else if (char === "|") {
+      found.add("|");
+    } else if (char === "&") {
+      found.add("&");
+    } else if (char === ">" || char === "<") {
+      found.add(char);
+    }
+  }
+
+  return [...found];
+}
+
+// FFmpeg options that never take a value, used until the local ffmpeg's own
+// list is known (see setFlagOptions)
+const FFMPEG_FLAG_OPTIONS = new Set([
+  "-y",
+  "-n",
+  "-an",
+  "-vn",
+  "-sn",
+  "-dn",
+  "-re",
+  "-stats",
+  "-nostats",
+  "-nostdin",
+  "-stdin",
+  "-hide_banner",
+  "-shortest",
+  "-copyts",
+  "-start_at_zero",
+  "-benchmark",
+  "-benchmark_all",
+  "-dump",
+  "-hex",
+  "-accurate_seek",
+  "-noaccurate_seek",
+  "-ignore_unknown",
+  "-copy_unknown",
+  "-xerror",
+  "-report",
+  "-autorotate",
+  "-noautorotate",
+  "-autoscale",
+  "-noautoscale",
+  "-debug_ts",
+  "-bitexact",
+  "-psnr",
+  "-vstats",
+  "-fix_sub_duration",
+]);
+
+let detectedFlagOptions: Set<string> | undefined;
+
+/**
+ * Use the value-less options the local ffmpeg documents in `ffmpeg -h full`
+ * instead of the built-in list, which only covers the common ones.
+ */
+export function setFlagOptions(options: string[]): void {
+  detectedFlagOptions =
+    options.length > 0
+      ? new Set(options.map((option) => `-${option}`))
+      : undefined;
+}
+
+export interface CommandFiles {
+  inputs: string[];
+  outputs: string[];
+}
+
+/**
+ * Work out which arguments of an ffmpeg argv are input and output files.
+ * Inputs follow -i; outputs are the positional arguments left over once every
+ * option has consumed its value.
+ */
+export function getCommandFiles(args: string[]): CommandFiles {
+  const inputs: string[] = [];
+  const outputs: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "-i") {
+      if (i + 1 < args.length) inputs.push(args[i + 1]);
+      i++;
+    } else if (arg.startsWith("-") && arg.length > 1) {
+      if (!isFlagOption(arg)) i++;
+    } else {
+      outputs.push(arg);
+    }
+  }
+
+  return { inputs, outputs };
+}
+
+export interface CommandInput {
+  path: string;
+  // Format forced with -f before the -i, e.g. "lavfi" or "x11grab"
+  format?: string;
+}
+
+/**
+ * List the inputs of an ffmpeg argv together with the format they were
+ * forced to, so generated sources (lavfi) and devices can be told apart
+ * from files.
+ */
+export function getCommandInputs(args: string[]): CommandInput[] {
+  const inputs: CommandInput[] = [];
+  let format: string | undefined;
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "-i") {
+      if (i + 1 < args.length) inputs.push({ path: args[i + 1], format });
+      format = undefined;
+      i++;
+    } else if (arg.startsWith("-") && arg.length > 1) {
+      if (arg === "-f") format = args[i + 1];
+      if (!isFlagOption(arg)) i++;
+    } else {
+      format = undefined;
+    }
+  }
+
+  return inputs;
+}
+
+/**
+ * List the option names an ffmpeg argv uses, without their leading dash or
+ * stream specifiers ("-c:v" becomes "c").
+ */
+export function getCommandOptions(args: string[]): string[] {
+  const options: string[] = [];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("-") || arg.length === 1) continue;
+
+    options.push(arg.slice(1).split(":")[0]);
+    if (!isFlagOption(arg)) i++;
+  }
+
+  return [...new Set(options)];
+}
+
+/**
+ * Rewrite an ffmpeg argv into a cheap trial run: every output is replaced by
+ * the null muxer and limited to the given number of seconds, so nothing is
+ * written to disk.
+ */
+export function buildTrialArgs(args: string[], seconds: number): string[] {
+  const trial = [args[0]];
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "-i" || (arg.startsWith("-") && arg.length > 1)) {
+      trial.push(arg);
+      if (arg === "-i" || !isFlagOption(arg)) {
+        if (i + 1 < args.length) trial.push(args[i + 1]);
+        i++;
+      }
+    } else {
+      trial.push("-t", String(seconds), "-f", "null", "-");
+    }
+  }
+
+  return trial;
+}
+
+/**
+ * Whether a file argument refers to the local file system, as opposed to
+ * stdin/stdout or a URL.
+ */
+export function isLocalPath(path: string): boolean {
+  return (
+    path !== "-" &&
+    !path.startsWith("pipe:") &&
+    !/^[a-z][\w+.-]*:\/\//i.test(path)
+  );
+}
+
+/**
+ * Check whether an ffmpeg option stands on its own instead of taking a value.
+ */
+export function isFlagOption(option: string): boolean {
+  const base = option.split(":")[0];
+  const flags = detectedFlagOptions ?? FFMPEG_FLAG_OPTIONS;
+  // Boolean options can be negated with a "no" prefix, like -noautorotate
+  return (
+    flags.has(base) ||
+    (base.startsWith("-no") && flags.has(`-${base.slice(3)}`))
+  );
+}
+
+const CODEC_OPTIONS = new Set([
+  "-c",
+  "-codec",
+  "-vcodec",
+  "-acodec",
+  "-scodec",
+  "-dcodec",
+]);
+
+const FILTER_OPTIONS = new Set([
+  "-vf",
+  "-af",
+  "-filter",
+  "-filter_complex",
+  "-lavfi",
+]);
+
+export interface CommandFeatures {
+  // Codecs requested for outputs (-c:v libx264, -acodec aac, ...)
+  encoders: string[];
+  // Codecs forced on inputs (a codec option before -i)
+  decoders: string[];
+  filters: string[];
+  hwaccels: string[];
+}
+
+/**
+ * Collect the codecs, filters and hardware acceleration methods an ffmpeg
+ * argv asks for. Codec options apply to the next input or output, so one
+ * placed before -i names a decoder. Stream copies and `-hwaccel auto` are
+ * left out since they work with any build.
+ */
+export function getCommandFeatures(args: string[]): CommandFeatures {
+  const features: CommandFeatures = {
+    encoders: [],
+    decoders: [],
+    filters: [],
+    hwaccels: [],
+  };
+  let pendingCodecs: string[] = [];
+  let inputFormat: string | undefined;
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    const base = arg.split(":")[0];
+    const value = args[i + 1];
+
+    if (arg === "-i") {
+      features.decoders.push(...pendingCodecs);
+      if (inputFormat === "lavfi" && value !== undefined) {
+        features.filters.push(...getFilterNames(value));
+      }
+      pendingCodecs = [];
+      inputFormat = undefined;
+      i++;
+    } else if (arg.startsWith("-") && arg.length > 1) {
+      if (isFlagOption(arg) || value === undefined) continue;
+
+      if (CODEC_OPTIONS.has(base) && value !== "copy") {
+        pendingCodecs.push(value);
+      } else if (FILTER_OPTIONS.has(base)) {
+        features.filters.push(...getFilterNames(value));
+      } else if (arg === "-hwaccel" && value !== "auto" && value !== "none") {
+        features.hwaccels.push(value);
+      } else if (arg === "-f") {
+        inputFormat = value;
+      }
+      i++;
+    } else {
+      features.encoders.push(...pendingCodecs);
+      pendingCodecs = [];
+      inputFormat = undefined;
+    }
+  }
+
+  features.encoders.push(...pendingCodecs);
+
+  return {
+    encoders: [...new Set(features.encoders)],
+    decoders: [...new Set(features.decoders)],
+    filters: [...new Set(features.filters)],
+    hwaccels: [...new Set(features.hwaccels)],
+  };
+}
+
+/**
+ * Extract the filter names from a filtergraph description such as
+ * "[0:v]scale=1280:-2,fps=10[v];[v]split[a][b]".
+ */
+export function getFilterNames(graph: string): string[] {
+  return (
+    graph
+      // Quoted and escaped arguments may contain separators
+      .replace(/'[^']*'/g, "''")
+      .replace(/\\./g, "")
+      .split(/[;,]/)
+      .map(
+        (filter) =>
+          filter.replace(/^\s*(?:\[[^\]]*\]\s*)*/, "").match(/^\w+/)?.[0],
+      )
+      .filter((name): name is string => !!name)
+  );
+}
@@ -0,0 +1,287 @@
+import { statSync, readdirSync, mkdirSync } from "fs";
+import { resolve, join, extname, dirname, basename } from "path";
+import { quoteArgument } from "./argv.js";
+import { executeCommand, CommandExecutionError } from "./executor.js";
+
+export const DEFAULT_OUTPUT_PATTERN = "{dir}/{name}-converted";
+
+export interface BatchFile {
+  index: number;
+  input: string;
+  output: string;
+  command: string;
+}
+
+export interface BatchResult {
+  file: BatchFile;
+  status: "success" | "failed" | "cancelled";
+  startedAt?: number;
+  // Milliseconds the command ran for
+  duration: number;
+  exitCode?: number | null;
+  error?: string;
+}
+
+export interface BatchRunOptions {
+  // Commands running at the same time
+  concurrency: number;
+  // Stops files that haven't started yet; running ffmpeg processes get Ctrl-C themselves
+  signal?: AbortSignal;
+  onResult?: (result: BatchResult) => void;
+}
+
+const INPUT_PLACEHOLDER = /(["']?)\{input\}\1/g;
+// The output placeholder is followed by the extension the model picked
+const OUTPUT_PLACEHOLDER = /(["']?)\{output\}([\w.%-]*)\1/g;
+
+/**
+ * Ask for a reusable command instead of one for a specific file. When an
+ * example file is known it is named, so the model (and the ffprobe step) can
+ * see what kind of media it is dealing with.
+ */
+export function buildBatchPrompt(prompt: string, example?: string): string {
+  const files = example ? `many files, like "${example}"` : "many files";
+  return `${prompt}
+
+The command will be run once for each of ${files}.
+Write it for a single file, using the placeholder {input} for the input file and {output} followed by the output extension (e.g. {output}.mp4) for the output file. Don't use loops, globs or any other shell syntax.`;
+}
+
+export function isBatchTemplate(command: string): boolean {
+  return command.includes("{input}") && command.includes("{output}");
+}
+
+/**
+ * Expand file arguments. Arguments the shell already expanded are taken as
+ * they are; quoted patterns are matched here, supporting *, ?, [abc] and **.
+ */
+export function expandGlobs(patterns: string[]): string[] {
+  const files = new Set<string>();
+
+  for (const pattern of patterns) {
+    if (!hasGlobCharacters(pattern)) {
+      if (isFile(pattern)) files.add(pattern);
+      continue;
+    }
+
+    const segments = pattern.split("/");
+    const base = segments[0] === "" ? "/" : ".";
+    const matches: string[] = [];
+    walk(base, segments.filter(Boolean), matches);
+    matches.sort().forEach((match) => files.add(match));
+  }
+
+  return [...files];
+}
+
+/**
+ * Fill in an output naming pattern for one input: {dir}, {name} (file name
+ * without extension), {ext} (input extension without the dot) and {index}
+ * (1-based position in the batch).
+ */
+export function renderOutputName(
+  pattern: string,
+  input: string,
+  index: number,
+): string {
+  const ext = extname(input);
+  const values: Record<string, string> = {
+    dir: dirname(input),
+    name: basename(input, ext),
+    ext: ext.slice(1),
+    index: String(index + 1),
+  };
+
+  return pattern.replace(
+    /\{(dir|name|ext|index)\}/g,
+    (_match, key: string) => values[key],
+  );
+}
+
+/**
+ * Turn the template into one command per input. Throws when the naming
+ * pattern would overwrite an input or give two inputs the same output.
+ */
+export function planBatch(
+  template: string,
+  inputs: string[],
+  outputPattern: string,
+): BatchFile[] {
+  const suffix = template.match(/\{output\}([\w.%-]*)/)?.[1] ?? "";
+  const inputPaths = new Set(inputs.map((input) => resolve(input)));
+  const outputPaths = new Map<string, string>();
+
+  return inputs.map((input, index) => {
+    const base = renderOutputName(outputPattern, input, index);
+    const output = base + suffix;
+    const outputPath = resolve(output);
+
+    if (inputPaths.has(outputPath)) {
+      throw new Error(
+        `Output "${output}" would overwrite an input file. Change the pattern with --output.`,
+      );
+    }
+    const clash = outputPaths.get(outputPath);
+    if (clash) {
+      throw new Error(
+        `"${clash}" and "${input}" would both be written to "${output}". Include {name} or {index} in the output pattern.`,
+      );
+    }
+    outputPaths.set(outputPath, input);
+
+    const command = template
+      .replace(INPUT_PLACEHOLDER, () => quoteArgument(input))
+      .replace(OUTPUT_PLACEHOLDER, (_match, _quote, extension: string) =>
+        quoteArgument(base + extension),
+      );
+
+    return { index, input, output, command };
+  });
+}
+
+/**
+ * Run every planned command, at most `concurrency` at a time. ffmpeg's output
+ * is captured instead of printed so parallel runs don't interleave; the tail
+ * of it is kept on failed results.
+ */
+export async function runBatch(
+  files: BatchFile[],
+  options: BatchRunOptions,
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < files.length) {
+      const file = files[next++];
+      const result = await runFile(file, options.signal);
+      results[file.index] = result;
+      options.onResult?.(result);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(options.concurrency, files.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+async function runFile(
+  file: BatchFile,
+  signal?: AbortSignal,
+): Promise<BatchResult> {
+  if (signal?.aborted) {
+    return { file, status: "cancelled", duration: 0 };
+  }
+
+  const startedAt = Date.now();
+  try {
+    mkdirSync(dirname(file.output), { recursive: true });
+    await executeCommand(file.command, {
+      ignoreStdin: true,
+      onStderr: () => {},
+    });
+    return {
+      file,
+      status: "success",
+      startedAt,
+      duration: Date.now() - startedAt,
+      exitCode: 0,
+    };
+  } catch (error) {
+    const failed = error instanceof CommandExecutionError ? error : undefined;
+    return {
+      file,
+      status: signal?.aborted ? "cancelled" : "failed",
+      startedAt,
+      duration: Date.now() - startedAt,
+      exitCode: failed?.exitCode,
+      error: failed?.stderrTail || (error as Error).message,
+    };
+  }
+}
+
+function hasGlobCharacters(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readDirectory(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+function walk(dir: string, segments: string[], matches: string[]): void {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return;
+  }
+
+  if (segment === "**") {
+    walk(dir, rest, matches);
+    for (const name of readDirectory(dir)) {
+      const path = join(dir, name);
+      if (!name.startsWith(".") && isDirectory(path)) {
+        walk(path, segments, matches);
+      }
+    }
+    return;
+  }
+
+  const names = hasGlobCharacters(segment)
+    ? readDirectory(dir).filter(
+        (name) =>
+          (segment.startsWith(".") || !name.startsWith(".")) &&
+          globToRegExp(segment).test(name),
+      )
+    : [segment];
+
+  for (const name of names) {
+    const path = join(dir, name);
+    if (rest.length === 0) {
+      if (isFile(path)) matches.push(path);
+    } else if (isDirectory(path)) {
+      walk(path, rest, matches);
+    }
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    const end = char === "[" ? glob.indexOf("]", i + 2) : -1;
+
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (end !== -1) {
+      const set = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += set.startsWith("!") ? `[^${set.slice(1)}]` : `[${set}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
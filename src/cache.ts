@@ -0,0 +1,288 @@
+import {
+  writeFileSync,
+  unlinkSync,
+  statSync,
+  readFileSync,
+  readdirSync,
+  mkdirSync,
+  existsSync,
+} from "fs";
+import { join } from "path";
+import { homedir } from "os";
+import crypto from "crypto";
+import { configManager } from "./config.js";
+
+export interface CacheKeyParts {
+  // What was asked for, e.g. "generate" or "explain"
+  kind: string;
+  prompt: string;
+  provider: string;
+  model: string;
+  systemPrompt: string;
+}
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  kind: string;
+  provider: string;
+  model: string;
+  prompt: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+  value: T;
+}
+
+export interface CacheStats {
+  entries: number;
+  expired: number;
+  totalSize: number;
+  hits: number;
+  oldest?: number;
+  newest?: number;
+}
+
+export interface PruneResult {
+  removed: number;
+  freedBytes: number;
+}
+
+interface CacheFileInfo {
+  path: string;
+  size: number;
+  // Entries are rewritten whenever they're used, so this is their last use
+  mtimeMs: number;
+}
+
+interface CacheFile extends CacheFileInfo {
+  entry: CacheEntry;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Content-addressed store for model responses in ~/.llmpeg/cache.
+ * Each response is a JSON file named after the hash of everything that
+ * influenced it, so a changed system prompt or model never replays a stale answer.
+ */
+export class ResponseCache {
+  private readonly cachePath: string;
+
+  constructor() {
+    this.cachePath = join(homedir(), ".llmpeg", "cache");
+  }
+
+  /**
+   * Hash the request into a cache key. Prompts are compared with surrounding
+   * and repeated whitespace removed; case is kept because file names are
+   * case-sensitive.
+   */
+  createKey(parts: CacheKeyParts): string {
+    const systemHash = crypto
+      .createHash("sha256")
+      .update(parts.systemPrompt)
+      .digest("hex");
+
+    return crypto
+      .createHash("sha256")
+      .update(
+        JSON.stringify([
+          parts.kind,
+          normalizePrompt(parts.prompt),
+          parts.provider,
+          parts.model,
+          systemHash,
+        ]),
+      )
+      .digest("hex");
+  }
+
+  get<T>(key: string): T | undefined {
+    const path = this.getPath(key);
+    const entry = this.read(path);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (this.isExpired(entry)) {
+      this.remove(path);
+      return undefined;
+    }
+
+    entry.hits++;
+    entry.lastUsedAt = Date.now();
+    try {
+      this.write(path, entry);
+    } catch {
+      // The response is still good when its usage can't be recorded
+    }
+    return entry.value as T;
+  }
+
+  /**
+   * Store a response. Throws when it can't be written, e.g. because the
+   * cache directory isn't writable.
+   */
+  set<T>(
+    key: string,
+    parts: Omit<CacheKeyParts, "systemPrompt">,
+    value: T,
+  ): void {
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      key,
+      kind: parts.kind,
+      provider: parts.provider,
+      model: parts.model,
+      prompt: normalizePrompt(parts.prompt),
+      createdAt: now,
+      lastUsedAt: now,
+      hits: 0,
+      value,
+    };
+
+    this.write(this.getPath(key), entry);
+    this.enforceSizeLimit();
+  }
+
+  getStats(): CacheStats {
+    const files = this.list();
+    const stats: CacheStats = {
+      entries: files.length,
+      expired: 0,
+      totalSize: 0,
+      hits: 0,
+    };
+
+    for (const { size, entry } of files) {
+      stats.totalSize += size;
+      stats.hits += entry.hits;
+      if (this.isExpired(entry)) stats.expired++;
+      stats.oldest = Math.min(stats.oldest ?? entry.createdAt, entry.createdAt);
+      stats.newest = Math.max(stats.newest ?? entry.createdAt, entry.createdAt);
+    }
+
+    return stats;
+  }
+
+  clear(): number {
+    const files = this.list();
+    files.forEach((file) => this.remove(file.path));
+    return files.length;
+  }
+
+  /**
+   * Remove expired entries, then the least recently used ones until the
+   * cache fits within the configured size limit.
+   */
+  prune(): PruneResult {
+    const result: PruneResult = { removed: 0, freedBytes: 0 };
+
+    for (const file of this.list()) {
+      if (this.isExpired(file.entry)) {
+        this.remove(file.path);
+        result.removed++;
+        result.freedBytes += file.size;
+      }
+    }
+
+    const limited = this.enforceSizeLimit();
+    result.removed += limited.removed;
+    result.freedBytes += limited.freedBytes;
+    return result;
+  }
+
+  /**
+   * Runs after every write, so it only stats the files instead of parsing
+   * them.
+   */
+  private enforceSizeLimit(): PruneResult {
+    const result: PruneResult = { removed: 0, freedBytes: 0 };
+    const maxSize = configManager.getCacheMaxSize() * 1024 * 1024;
+    const files = this.listFiles().sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalSize = files.reduce((total, file) => total + file.size, 0);
+
+    for (const file of files) {
+      if (totalSize <= maxSize) break;
+      this.remove(file.path);
+      totalSize -= file.size;
+      result.removed++;
+      result.freedBytes += file.size;
+    }
+
+    return result;
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    const ttlDays = configManager.getCacheTtl();
+    return ttlDays > 0 && Date.now() - entry.createdAt > ttlDays * DAY_MS;
+  }
+
+  private getPath(key: string): string {
+    return join(this.cachePath, `${key}.json`);
+  }
+
+  private list(): CacheFile[] {
+    const files: CacheFile[] = [];
+    for (const file of this.listFiles()) {
+      const entry = this.read(file.path);
+      if (entry) {
+        files.push({ ...file, entry });
+      }
+    }
+    return files;
+  }
+
+  private listFiles(): CacheFileInfo[] {
+    if (!existsSync(this.cachePath)) {
+      return [];
+    }
+
+    const files: CacheFileInfo[] = [];
+    for (const name of readdirSync(this.cachePath)) {
+      if (!name.endsWith(".json")) continue;
+      const path = join(this.cachePath, name);
+      try {
+        const { size, mtimeMs } = statSync(path);
+        files.push({ path, size, mtimeMs });
+      } catch {
+        // Removed by another llmpeg process meanwhile
+      }
+    }
+    return files;
+  }
+
+  private read(path: string): CacheEntry | undefined {
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(readFileSync(path, "utf-8"));
+    } catch {
+      // Corrupt entries are treated as misses and dropped
+      this.remove(path);
+      return undefined;
+    }
+  }
+
+  private write(path: string, entry: CacheEntry): void {
+    if (!existsSync(this.cachePath)) {
+      mkdirSync(this.cachePath, { recursive: true });
+    }
+    writeFileSync(path, JSON.stringify(entry, null, 2));
+  }
+
+  private remove(path: string): void {
+    try {
+      unlinkSync(path);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, " ");
+}
+
+export const responseCache = new ResponseCache();
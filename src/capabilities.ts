@@ -0,0 +1,382 @@
+import { execFile } from "child_process";
+import {
+  writeFileSync,
+  statSync,
+  readFileSync,
+  mkdirSync,
+  existsSync,
+} from "fs";
+import { join, delimiter } from "path";
+import { homedir } from "os";
+import { setFlagOptions, getCommandFeatures } from "./argv.js";
+
+export interface FfmpegCapabilities {
+  path: string;
+  // Modification time of the binary when it was inspected
+  mtimeMs: number;
+  version: string;
+  encoders: string[];
+  decoders: string[];
+  // Codec names (e.g. h264, mp3) with at least one encoder or decoder, from `ffmpeg -codecs`
+  encodableCodecs: string[];
+  decodableCodecs: string[];
+  filters: string[];
+  hwaccels: string[];
+  // Every option name `ffmpeg -h full` documents, without the leading dash
+  options: string[];
+  // Main options that take no value (y, bitexact, ...)
+  flagOptions: string[];
+}
+
+const DETECT_TIMEOUT_MS = 10_000;
+
+// Encoders and filters worth telling the model about, whether present or not
+const NOTABLE_ENCODERS = [
+  "libx264",
+  "libx265",
+  "libvpx",
+  "libvpx-vp9",
+  "libaom-av1",
+  "libsvtav1",
+  "librav1e",
+  "h264_nvenc",
+  "hevc_nvenc",
+  "av1_nvenc",
+  "h264_qsv",
+  "hevc_qsv",
+  "h264_vaapi",
+  "hevc_vaapi",
+  "h264_videotoolbox",
+  "hevc_videotoolbox",
+  "h264_amf",
+  "hevc_amf",
+  "prores_ks",
+  "libwebp",
+  "gif",
+  "aac",
+  "libfdk_aac",
+  "libmp3lame",
+  "libopus",
+  "libvorbis",
+  "flac",
+  "ac3",
+];
+
+const NOTABLE_FILTERS = [
+  "drawtext",
+  "subtitles",
+  "ass",
+  "zscale",
+  "libvmaf",
+  "loudnorm",
+  "palettegen",
+  "paletteuse",
+  "minterpolate",
+  "vidstabdetect",
+  "vidstabtransform",
+  "scale_cuda",
+  "scale_npp",
+  "scale_vaapi",
+  "scale_qsv",
+];
+
+const cacheFile = join(homedir(), ".llmpeg", "capabilities.json");
+const detected = new Map<string, FfmpegCapabilities>();
+
+/**
+ * Find an executable on PATH, like `which`.
+ */
+export function findExecutable(name: string): string | undefined {
+  const extensions =
+    process.platform === "win32"
+      ? (process.env.PATHEXT || ".EXE;.CMD;.BAT").split(";")
+      : [""];
+
+  for (const dir of (process.env.PATH || "").split(delimiter)) {
+    if (!dir) continue;
+    for (const extension of extensions) {
+      const candidate = join(dir, name + extension);
+      try {
+        if (statSync(candidate).isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Not in this directory
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The capabilities detected earlier for the installed ffmpeg, without running
+ * it. Also makes command parsing use that build's value-less options, so
+ * call it before parsing commands when detection isn't needed otherwise.
+ */
+export function getCachedCapabilities(
+  binary = "ffmpeg",
+): FfmpegCapabilities | undefined {
+  const path = findExecutable(binary);
+  if (!path) {
+    return undefined;
+  }
+
+  const known = detected.get(path) ?? readCache()[path];
+  // Entries written before options, codecs and flags were detected are refreshed
+  if (
+    !known ||
+    known.mtimeMs !== statSync(path).mtimeMs ||
+    !known.options ||
+    !known.encodableCodecs ||
+    !known.flagOptions
+  ) {
+    return undefined;
+  }
+
+  detected.set(path, known);
+  setFlagOptions(known.flagOptions);
+  return known;
+}
+
+/**
+ * Inspect the installed ffmpeg build. Results are cached in
+ * ~/.llmpeg/capabilities.json, keyed on the binary path and invalidated when
+ * its modification time changes. Returns undefined when ffmpeg isn't installed
+ * or can't be run.
+ */
+export async function detectCapabilities(
+  binary = "ffmpeg",
+): Promise<FfmpegCapabilities | undefined> {
+  const known = getCachedCapabilities(binary);
+  if (known) {
+    return known;
+  }
+
+  const path = findExecutable(binary);
+  if (!path) {
+    return undefined;
+  }
+  const { mtimeMs } = statSync(path);
+
+  try {
+    const [version, encoders, decoders, codecs, filters, hwaccels, help] =
+      await Promise.all(
+        [
+          ["-version"],
+          ["-encoders"],
+          ["-decoders"],
+          ["-codecs"],
+          ["-filters"],
+          ["-hwaccels"],
+          ["-h", "full"],
+        ].map((options) => run(path, options)),
+      );
+
+    const capabilities: FfmpegCapabilities = {
+      path,
+      mtimeMs,
+      version: version.match(/ffmpeg version (\S+)/)?.[1] ?? "unknown",
+      encoders: parseCodecList(encoders),
+      decoders: parseCodecList(decoders),
+      encodableCodecs: parseCodecTable(codecs, "encode"),
+      decodableCodecs: parseCodecTable(codecs, "decode"),
+      filters: parseFilterList(filters),
+      hwaccels: parseHwaccelList(hwaccels),
+      options: parseOptionList(help),
+      flagOptions: parseFlagOptions(help),
+    };
+
+    detected.set(path, capabilities);
+    setFlagOptions(capabilities.flagOptions);
+    writeCache({ ...readCache(), [path]: capabilities });
+    return capabilities;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Render a compact, model-friendly description of what the local ffmpeg supports.
+ */
+export function summarizeCapabilities(
+  capabilities: FfmpegCapabilities,
+): string {
+  const encoders = new Set(capabilities.encoders);
+  const filters = new Set(capabilities.filters);
+  const availableEncoders = NOTABLE_ENCODERS.filter((name) =>
+    encoders.has(name),
+  );
+  const missingEncoders = NOTABLE_ENCODERS.filter(
+    (name) => !encoders.has(name),
+  );
+  const missingFilters = NOTABLE_FILTERS.filter((name) => !filters.has(name));
+
+  const lines = [
+    `ffmpeg ${capabilities.version}`,
+    capabilities.hwaccels.length > 0
+      ? `Hardware acceleration: ${capabilities.hwaccels.join(", ")}`
+      : "Hardware acceleration: none (do not use -hwaccel or hardware encoders)",
+    `Encoders available: ${availableEncoders.join(", ") || "none of the common ones"}`,
+  ];
+  if (missingEncoders.length > 0) {
+    lines.push(`Encoders NOT available: ${missingEncoders.join(", ")}`);
+  }
+  if (missingFilters.length > 0) {
+    lines.push(`Filters NOT available: ${missingFilters.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * List the encoders, decoders, filters and hardware acceleration methods a
+ * command uses that the local ffmpeg doesn't have. Codec values may name an
+ * encoder (libx264) or a codec (h264), which counts as available when the
+ * build has any encoder or decoder for it.
+ */
+export function findUnavailableFeatures(
+  args: string[],
+  capabilities: FfmpegCapabilities,
+): string[] {
+  const features = getCommandFeatures(args);
+  const missing = (names: string[], ...available: string[][]) =>
+    names.filter((name) => !available.some((list) => list.includes(name)));
+
+  return [
+    ...missing(
+      features.encoders,
+      capabilities.encoders,
+      capabilities.encodableCodecs,
+    ).map((name) => `Encoder "${name}" is not available in your ffmpeg build`),
+    ...missing(
+      features.decoders,
+      capabilities.decoders,
+      capabilities.decodableCodecs,
+    ).map((name) => `Decoder "${name}" is not available in your ffmpeg build`),
+    ...missing(features.filters, capabilities.filters).map(
+      (name) => `Filter "${name}" is not available in your ffmpeg build`,
+    ),
+    ...missing(features.hwaccels, capabilities.hwaccels).map(
+      (name) =>
+        `Hardware acceleration "${name}" is not available on this machine`,
+    ),
+  ];
+}
+
+function run(path: string, options: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      path,
+      ["-hide_banner", ...options],
+      { timeout: DETECT_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 },
+      (error, stdout) => {
+        if (error) {
+          reject(
+            new Error(`ffmpeg ${options.join(" ")} failed: ${error.message}`),
+          );
+          return;
+        }
+        resolve(stdout);
+      },
+    );
+  });
+}
+
+/**
+ * Parse `ffmpeg -encoders` / `-decoders` output, where each codec line looks
+ * like " V....D libx264              libx264 H.264 / AVC ...".
+ */
+function parseCodecList(output: string): string[] {
+  const [, list = ""] = output.split(/^\s*-{6}\s*$/m);
+  return list
+    .split("\n")
+    .map((line) => line.match(/^\s*[VASD.][A-Z.]{5}\s+(\S+)/)?.[1])
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * Parse `ffmpeg -codecs` output, keeping the codecs that can be encoded or
+ * decoded. Lines look like " DEV.LS h264   H.264 / AVC ... (encoders: libx264 )",
+ * where the first flag is decoding and the second encoding support.
+ */
+function parseCodecTable(
+  output: string,
+  support: "encode" | "decode",
+): string[] {
+  const [, list = ""] = output.split(/^\s*-{6,}\s*$/m);
+  return list
+    .split("\n")
+    .map((line) => line.match(/^\s*([D.])([E.])[VASDT.][I.][L.][S.]\s+(\S+)/))
+    .filter((match): match is RegExpMatchArray => {
+      if (!match) return false;
+      return support === "decode" ? match[1] === "D" : match[2] === "E";
+    })
+    .map((match) => match[3]);
+}
+
+/**
+ * Parse `ffmpeg -filters` output: " TSC scale             V->V       Scale the input video."
+ */
+function parseFilterList(output: string): string[] {
+  return output
+    .split("\n")
+    .map((line) => line.match(/^\s*[T.][S.][C.]\s+(\w+)\s+\S+->\S+/)?.[1])
+    .filter((name): name is string => !!name);
+}
+
+function parseHwaccelList(output: string): string[] {
+  return output
+    .split("\n")
+    .slice(1)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse `ffmpeg -h full`, which lists main options ("-c[:<stream_spec>] <codec>")
+ * and the AVOptions of every codec, format and filter ("  -crf  <float>  E..V...").
+ */
+function parseOptionList(output: string): string[] {
+  const options = output
+    .split("\n")
+    .map((line) => line.match(/^\s*-([\w-]+)/)?.[1])
+    .filter((name): name is string => !!name);
+  return [...new Set(options)];
+}
+
+/**
+ * Find the main options that take no value. `ffmpeg -h full` prints them at
+ * the start of the line as "-name" or "-name arg" followed by the help text,
+ * e.g. "-bitexact           bitexact mode" and "-t duration         record
+ * ...". The indented AVOptions of codecs and formats always take a value.
+ */
+function parseFlagOptions(output: string): string[] {
+  const flags = output
+    .split("\n")
+    .map((line) => line.match(/^-(\S+)(?: (\S+))?(?:\s{2,}|$)/))
+    .filter((match): match is RegExpMatchArray => !!match && !match[2])
+    // "-name[:<stream_spec>]"
+    .map((match) => match[1].split("[")[0]);
+  return [...new Set(flags)];
+}
+
+function readCache(): Record<string, FfmpegCapabilities> {
+  if (!existsSync(cacheFile)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(cacheFile, "utf-8"));
+  } catch {
+    return {};
+  }
+}
+
+function writeCache(cache: Record<string, FfmpegCapabilities>): void {
+  try {
+    mkdirSync(join(homedir(), ".llmpeg"), { recursive: true });
+    writeFileSync(cacheFile, JSON.stringify(cache, null, 2));
+  } catch {
+    // Detection still works without the cache
+  }
+}
@@ -3,35 +3,142 @@
 import { Command } from "commander";
 import chalk from "chalk";
 import ora from "ora";
-import { generateFfmpegCommand } from "./index.js";
+import type { Ora } from "ora";
+import {
+  streamFfmpegCommand,
+  repairFfmpegCommand,
+  generateFfmpegCommand,
+  explainFfmpegCommand,
+} from "./index.js";
+import type {
+  ModelOptions,
+  GenerationResult,
+  ConversationTurn,
+  CommandExplanation,
+} from "./index.js";
 import { configManager } from "./config.js";
 import { copyToClipboard } from "./clipboard.js";
+import { executeCommand, CommandExecutionError } from "./executor.js";
+import type { ExecuteOptions } from "./executor.js";
+import { createProgressReporter } from "./progress.js";
+import type { ProgressReporter } from "./progress.js";
+import {
+  runBatch,
+  planBatch,
+  isBatchTemplate,
+  expandGlobs,
+  DEFAULT_OUTPUT_PATTERN,
+  buildBatchPrompt,
+} from "./batch.js";
+import type { BatchResult, BatchFile } from "./batch.js";
+import { FolderWatcher } from "./watch.js";
+import { jobManager } from "./jobs.js";
+import type { JobStatus, Job } from "./jobs.js";
+import type { WatchLogLevel } from "./watch.js";
+import {
+  EXECUTION_POLICIES,
+  checkRecipeSafety,
+  checkCommandSafety,
+  checkBatchSafety,
+} from "./safety.js";
+import type { SafetyReport, ExecutionPolicy } from "./safety.js";
+import { validateRecipe, validateCommand } from "./validate.js";
+import type { ValidationResult } from "./validate.js";
 import { historyManager } from "./history.js";
-import type { HistoryEntry } from "./history.js";
+import {
+  printJsonError,
+  printJson,
+  isJsonOutput,
+  getErrorCode,
+} from "./output.js";
+import { runRecipe, RecipeStepError } from "./recipe.js";
+import type { Recipe } from "./recipe.js";
+import { SCRIPT_SHELLS, getScriptShell, buildScript } from "./script.js";
+import { getCachedCapabilities } from "./capabilities.js";
+import type { ScriptShell, ScriptCommand } from "./script.js";
+import { responseCache } from "./cache.js";
+import type {
+  HistoryEntry,
+  ExecutionRecord,
+  ExecutionAttempt,
+} from "./history.js";
 import { presetManager } from "./presets.js";
 import type { PresetParameter, Preset } from "./presets.js";
 import figlet from "figlet";
 import { vice } from "gradient-string";
-import { writeFileSync, mkdirSync, existsSync } from "fs";
+import {
+  writeFileSync,
+  readFileSync,
+  mkdirSync,
+  existsSync,
+  chmodSync,
+} from "fs";
+import { spawn } from "child_process";
+import { quoteArgument, parseCommandLine } from "./argv.js";
+import { PROVIDERS, PROVIDER_IDS, isProviderId } from "./providers.js";
 import { join } from "path";
 import { homedir } from "os";
 import packageJSON from "../package.json" assert { type: "json" };
 import inquirer from "inquirer";
 
 const program = new Command();
+// Set before each command runs, for commands with a --json option
+let jsonOutput = false;
+
+/**
+ * Print a status message. In JSON mode it goes to stderr, so stdout carries
+ * nothing but the JSON result.
+ */
+function logStatus(...messages: unknown[]) {
+  if (jsonOutput) {
+    console.error(...messages);
+  } else {
+    console.log(...messages);
+  }
+}
+
+/**
+ * Where the command's own stdout goes: in JSON mode it is sent to stderr,
+ * otherwise the command writes to the terminal directly.
+ */
+function getCommandStdout(): ExecuteOptions["onStdout"] {
+  return jsonOutput ? (chunk) => process.stderr.write(chunk) : undefined;
+}
 
 program
   .name("llmpeg")
   .description("Generate FFmpeg commands using AI models")
   .version(packageJSON.version, "--version", "Show version information")
-  .option(
-    "-m, --model <model>",
-    "AI model to use (openai, claude, gemini, grok)",
-  )
+  // Subcommands reuse option names like --stream and --profile
+  .enablePositionalOptions()
+  .option("-m, --model <model>", `AI model to use (${PROVIDER_IDS.join(", ")})`)
   .option("-p, --provider <provider>", "Model provider specific variant")
   .option("-c, --copy", "Copy command to clipboard")
   .option("-e, --execute", "Execute the generated command")
   .option("-v, --verbose", "Show detailed output")
+  .option("--no-probe", "Don't inspect referenced media files with ffprobe")
+  .option(
+    "--no-capabilities",
+    "Don't check which encoders and filters the local ffmpeg supports",
+  )
+  .option("--stream", "Stream the command as the model generates it")
+  .option("--no-stream", "Wait for the complete command before printing")
+  .option(
+    "--repair-attempts <n>",
+    "Times to ask the model to fix a failed command (0 disables)",
+  )
+  .option("--no-fallback", "Only use the selected provider, never fall back")
+  .option("--timeout <seconds>", "Seconds to wait for each provider")
+  .option("--no-cache", "Always ask the model, ignoring cached responses")
+  .option("--offline", "Only answer from the response cache")
+  .option("--profile <name>", "Use a prompt profile from the config")
+  .option("--no-validate", "Don't check the command against the local ffmpeg")
+  .option(
+    "--script <file>",
+    "Also write the command to a bash (.sh) or PowerShell (.ps1) script",
+  )
+  .option("--json", "Print the result as JSON (default when piped)")
+  .option("--no-json", "Print human-readable output even when piped")
   .argument("<prompt...>", "FFmpeg command description")
   .action(async (promptParts, options) => {
     const prompt = promptParts.join(" ");
@@ -40,66 +147,166 @@ program
     const model = options.model || configManager.getDefaultProvider();
     const provider = options.provider || configManager.getDefaultModel(model);
 
-    const spinner = ora("Generating FFmpeg command...").start();
+    const json = jsonOutput;
+    const repairAttempts = parseRepairAttempts(options.repairAttempts);
+
+    const spinner = ora({
+      text: "Generating FFmpeg command...",
+      isSilent: json,
+    }).start();
+    const controller = abortOnInterrupt();
+    let mediaSummary: string | undefined;
+    let cachedFrom: string | undefined;
 
     try {
-      const command = await generateFfmpegCommand(prompt, {
+      const requestOptions: ModelOptions = {
+        fallback: options.fallback,
+        signal: controller.signal,
+        timeout: parseTimeout(options.timeout),
+        cache: options.cache === false ? false : undefined,
+        offline: options.offline,
+        onCacheHit: (source) => {
+          cachedFrom = `${source.provider}/${source.model}`;
+        },
+      };
+      const generateOptions = {
         model,
         provider,
-      });
+        ...requestOptions,
+        probe: options.probe,
+        capabilities: options.capabilities,
+        profile: options.profile,
+        onFallback: reportFallback(spinner),
+        onCacheError: reportCacheError(spinner),
+        onProbe: (summary: string) => {
+          mediaSummary = summary;
+        },
+      };
+      const shouldStream =
+        !json && (options.stream ?? configManager.getStream());
+      const result = shouldStream
+        ? await streamToTerminal(prompt, generateOptions, spinner)
+        : await generateFfmpegCommand(prompt, generateOptions);
+
+      spinner.succeed(
+        cachedFrom
+          ? `Command loaded from cache (${cachedFrom})`
+          : "Command generated successfully!",
+      );
 
-      spinner.succeed("Command generated successfully!");
+      const shouldValidate = options.validate && configManager.getValidate();
+      const validation = shouldValidate
+        ? await validateWithSpinner(result, spinner)
+        : undefined;
 
-      console.log(`\n${chalk.cyan("Prompt:")} ${prompt}`);
-      console.log(`${chalk.green("Command:")} ${chalk.bold(command)}`);
+      if (!json) {
+        if (options.verbose && mediaSummary) {
+          console.log(chalk.gray(`\nMedia info (ffprobe):\n${mediaSummary}`));
+        }
+        printGenerationResult(prompt, result, options.verbose, validation);
+      }
+      const {
+        command,
+        provider: answeredBy,
+        model: answeredModel,
+        ...details
+      } = result;
 
-      // Add to history
-      historyManager.add({
+      // Add to history, crediting the provider that actually answered
+      const entry = historyManager.add({
         prompt,
         command,
-        provider: model,
-        model: provider,
+        provider: answeredBy,
+        model: answeredModel,
+        profile: options.profile,
+        details,
+        validation,
       });
 
       // Check if we should copy to clipboard (explicit flag or auto-copy config)
       const shouldCopy =
-        options.copy || (options.copy !== false && configManager.getAutoCopy());
+        options.copy ||
+        (!json && options.copy !== false && configManager.getAutoCopy());
 
       if (shouldCopy) {
         try {
           await copyToClipboard(command);
-          console.log(chalk.yellow("\n✓ Command copied to clipboard"));
+          logStatus(chalk.yellow("\n✓ Command copied to clipboard"));
         } catch (error) {
-          console.log(
+          logStatus(
             chalk.red("\n✗ Failed to copy to clipboard:"),
             (error as Error).message,
           );
         }
       }
 
-      if (options.execute) {
-        console.log(chalk.yellow("\nExecuting command..."));
-        const { spawn } = await import("child_process");
-        const proc = spawn(command.split(" ")[0], command.split(" ").slice(1), {
-          stdio: "inherit",
-          shell: true,
+      if (options.script) {
+        writeScript(options.script, [{ command, recipe: result.recipe }], {
+          description: describeForScript(prompt, result.explanation),
         });
+      }
 
-        await new Promise((resolve, reject) => {
-          proc.on("close", (code) => {
-            if (code === 0) {
-              resolve(code);
-            } else {
-              reject(new Error(`Command exited with code ${code}`));
-            }
-          });
-          proc.on("error", reject);
+      // Undefined when the user cancelled instead of running or editing it
+      const target = options.execute
+        ? await chooseCommandToRun(entry)
+        : undefined;
+      const confirmed =
+        !!target && (await confirmExecution(target.command, result.recipe));
+      let succeeded = true;
+      if (target && confirmed) {
+        succeeded = await executeWithRepair(
+          target,
+          repairAttempts ?? configManager.getRepairAttempts(),
+          requestOptions,
+        );
+      }
+
+      if (json) {
+        printJson({
+          prompt,
+          command,
+          provider: answeredBy,
+          model: answeredModel,
+          historyId: entry.id,
+          ...details,
+          cached: cachedFrom !== undefined,
+          validation,
+          execution: historyManager.get(entry.id)?.execution,
         });
+        if (options.execute && !confirmed) {
+          const { allowed } = getSafetyReport(command, result.recipe);
+          printJsonError(
+            allowed ? "CONFIRMATION_REQUIRED" : "EXECUTION_BLOCKED",
+            allowed
+              ? "The command needs confirmation before it runs, which --json can't ask for"
+              : `Execution blocked by the "${configManager.getExecutionPolicy()}" safety policy`,
+          );
+          process.exit(1);
+        }
+      }
+      if (controller.signal.aborted) {
+        if (json) printJsonError("CANCELLED", "Execution cancelled");
+        process.exit(130);
+      }
+      if (!succeeded) {
+        if (json) printJsonError("EXECUTION_FAILED", "Execution failed");
+        process.exit(1);
       }
     } catch (error) {
+      // Ctrl-C: nothing was generated, so there is nothing to record
+      if (controller.signal.aborted) {
+        spinner.fail("Cancelled");
+        if (json) printJsonError("CANCELLED", "Cancelled");
+        process.exit(130);
+      }
+
       const err = error as Error;
       spinner.fail("Failed to generate command");
-      console.error(chalk.red("Error:"), err.message);
+      if (json) {
+        printJsonError(getErrorCode(err), err.message);
+      } else {
+        console.error(chalk.red("Error:"), err.message);
+      }
 
       // Add failed attempt to history
       historyManager.add({
@@ -118,6 +325,646 @@ program
     }
   });
 
+/**
+ * Generate a command with streamFfmpegCommand, echoing the command text as it
+ * arrives. The spinner is stopped as soon as the first characters show up.
+ */
+async function streamToTerminal(
+  prompt: string,
+  options: Parameters<typeof streamFfmpegCommand>[1],
+  spinner: Ora,
+): Promise<GenerationResult> {
+  let printed = "";
+
+  try {
+    for await (const event of streamFfmpegCommand(prompt, options)) {
+      if (event.type === "done") {
+        if (printed) {
+          process.stdout.write("\n");
+        }
+        return event.result;
+      }
+
+      const partialCommand = event.partial.command ?? "";
+      if (
+        partialCommand.length > printed.length &&
+        partialCommand.startsWith(printed)
+      ) {
+        if (!printed) {
+          spinner.stop();
+          process.stdout.write(chalk.gray("› "));
+        }
+        process.stdout.write(chalk.gray(partialCommand.slice(printed.length)));
+        printed = partialCommand;
+      }
+    }
+  } catch (error) {
+    // Don't leave the error message glued to a half-printed command
+    if (printed) {
+      process.stdout.write("\n");
+    }
+    throw error;
+  }
+
+  throw new Error("Failed to generate a response.");
+}
+
+/**
+ * Turn the first Ctrl-C into an abort of the running request or repair loop,
+ * so the CLI can clean up. A second Ctrl-C exits immediately.
+ */
+function abortOnInterrupt(): AbortController {
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  return controller;
+}
+
+function parseTimeout(seconds: string | undefined): number | undefined {
+  if (seconds === undefined) {
+    return undefined;
+  }
+  const value = Number.parseFloat(seconds);
+  if (Number.isNaN(value) || value < 0) {
+    if (jsonOutput) {
+      printJsonError("INVALID_OPTION", `Invalid timeout: ${seconds}`);
+    } else {
+      console.error(chalk.red(`Invalid timeout: ${seconds}`));
+    }
+    process.exit(1);
+  }
+  return value * 1000;
+}
+
+function parseRepairAttempts(attempts: string | undefined): number | undefined {
+  if (attempts === undefined) {
+    return undefined;
+  }
+  const value = Number.parseInt(attempts, 10);
+  if (Number.isNaN(value) || value < 0) {
+    if (jsonOutput) {
+      printJsonError("INVALID_OPTION", `Invalid repair attempts: ${attempts}`);
+    } else {
+      console.error(chalk.red(`Invalid repair attempts: ${attempts}`));
+    }
+    process.exit(1);
+  }
+  return value;
+}
+
+/**
+ * Tell the user when a provider failed and the next one in the fallback
+ * chain is being tried, keeping the spinner going.
+ */
+function reportFallback(spinner: Ora): ModelOptions["onFallback"] {
+  return (error, failed, next) => {
+    spinner.warn(`${failed.provider} failed: ${error.message.split("\n")[0]}`);
+    spinner.start(`Falling back to ${next}...`);
+  };
+}
+
+/**
+ * Mention a response that couldn't be cached without stopping the spinner.
+ * In JSON mode the warning goes to stderr as {"warning": {"message"}}.
+ */
+function reportCacheError(spinner: Ora): ModelOptions["onCacheError"] {
+  return (error) => {
+    const message = `Could not cache the response: ${error.message}`;
+    if (jsonOutput) {
+      process.stderr.write(`${JSON.stringify({ warning: { message } })}\n`);
+      return;
+    }
+    // e.g. stopped by streamToTerminal, which is printing the command
+    if (!spinner.isSpinning) {
+      console.error(chalk.yellow(`\n⚠ ${message}`));
+      return;
+    }
+    const text = spinner.text;
+    spinner.warn(message);
+    spinner.start(text);
+  };
+}
+
+async function validateWithSpinner(
+  { command, recipe }: Pick<GenerationResult, "command" | "recipe">,
+  spinner: Ora,
+): Promise<ValidationResult> {
+  spinner.start(recipe ? "Validating recipe..." : "Validating command...");
+  try {
+    return recipe
+      ? await validateRecipe(recipe)
+      : await validateCommand(command);
+  } finally {
+    spinner.stop();
+  }
+}
+
+function formatValidationBadge(validation: ValidationResult): string {
+  switch (validation.status) {
+    case "pass":
+      return chalk.green("✓ pass");
+    case "warn":
+      return chalk.yellow("! warn");
+    case "fail":
+      return chalk.red("✗ fail");
+  }
+}
+
+function printGenerationResult(
+  prompt: string,
+  result: GenerationResult,
+  verbose = false,
+  validation?: ValidationResult,
+) {
+  const badge = validation ? ` ${formatValidationBadge(validation)}` : "";
+  console.log(`\n${chalk.cyan("Prompt:")} ${prompt}`);
+  if (result.recipe) {
+    printRecipe(result.recipe, badge);
+  } else {
+    console.log(
+      `${chalk.green("Command:")} ${chalk.bold(result.command)}${badge}`,
+    );
+  }
+
+  if (verbose) {
+    console.log(chalk.gray(`Model: ${result.provider}/${result.model}`));
+  }
+
+  if (result.explanation) {
+    console.log(`\n${chalk.gray(result.explanation)}`);
+  }
+
+  if (result.warnings.length > 0) {
+    console.log(chalk.yellow("\n⚠️  Warnings:"));
+    result.warnings.forEach((warning) => {
+      console.log(`  ${chalk.yellow("!")} ${warning}`);
+    });
+  }
+
+  if (validation && validation.issues.length > 0) {
+    console.log(chalk.gray("\nValidation:"));
+    validation.issues.forEach((issue) => {
+      const icon =
+        issue.severity === "error" ? chalk.red("✗") : chalk.yellow("!");
+      console.log(`  ${icon} ${issue.message}`);
+    });
+  }
+
+  if (verbose && validation) {
+    console.log(chalk.gray(`Trial run: ${validation.trial}`));
+  }
+
+  if (verbose && result.assumptions.length > 0) {
+    console.log(chalk.gray("\nAssumptions:"));
+    result.assumptions.forEach((assumption) => {
+      console.log(chalk.gray(`  - ${assumption}`));
+    });
+  }
+}
+
+function printRecipe(recipe: Recipe, badge = "") {
+  console.log(`${chalk.green("Recipe:")} ${recipe.steps.length} steps${badge}`);
+  recipe.steps.forEach((step, index) => {
+    const description = step.description
+      ? ` ${chalk.gray(step.description)}`
+      : "";
+    console.log(`  ${chalk.cyan(`${index + 1}.`)}${description}`);
+    console.log(`     ${chalk.bold(step.command)}`);
+  });
+  if (recipe.tempFiles.length > 0) {
+    console.log(
+      chalk.gray(
+        `  Temporary files: ${recipe.tempFiles.join(", ")} (deleted afterwards)`,
+      ),
+    );
+  }
+}
+
+/**
+ * Execute a history entry's command. When it fails, ffmpeg's error output is
+ * sent back to the same provider for a corrected command, up to maxRepairs
+ * times. Each repair is validated and safety-checked like the original before
+ * it runs. Every attempt is recorded on the history entry.
+ *
+ * When modelOptions.signal is aborted (Ctrl-C, which ffmpeg receives as well),
+ * the loop stops without asking for a repair and is recorded as cancelled.
+ *
+ * Multi-step recipes are handed to executeRecipe instead.
+ */
+async function executeWithRepair(
+  entry: HistoryEntry,
+  maxRepairs: number,
+  modelOptions: ModelOptions = {},
+): Promise<boolean> {
+  if (entry.details?.recipe) {
+    return executeRecipe(entry, entry.details.recipe, modelOptions.signal);
+  }
+
+  const attempts: ExecutionAttempt[] = [];
+  let command = entry.command;
+
+  const finish = (status: ExecutionRecord["status"]) => {
+    historyManager.recordExecution(entry.id, {
+      status,
+      attempts,
+      finalCommand: command,
+    });
+    return status === "success";
+  };
+
+  while (true) {
+    logStatus(
+      chalk.yellow(
+        attempts.length === 0
+          ? "\nExecuting command..."
+          : `\nExecuting repaired command (attempt ${attempts.length + 1})...`,
+      ),
+    );
+
+    const reporter = createProgressReporter();
+    try {
+      await executeCommand(command, {
+        ...reporter,
+        onStdout: getCommandStdout(),
+      });
+      reporter.finish();
+      attempts.push({ command, timestamp: Date.now(), exitCode: 0 });
+      return finish("success");
+    } catch (error) {
+      reporter.finish();
+      const err = error as Error;
+      const stderrTail =
+        error instanceof CommandExecutionError ? error.stderrTail : "";
+      attempts.push({
+        command,
+        timestamp: Date.now(),
+        exitCode:
+          error instanceof CommandExecutionError ? error.exitCode : undefined,
+        error: stderrTail || err.message,
+      });
+      if (modelOptions.signal?.aborted) {
+        console.error(chalk.yellow("\n✗ Execution cancelled"));
+        return finish("cancelled");
+      }
+      console.error(chalk.red("\n✗ Execution failed:"), err.message);
+
+      if (
+        !(error instanceof CommandExecutionError) ||
+        attempts.length > maxRepairs
+      ) {
+        return finish("failed");
+      }
+    }
+
+    const spinner = ora({
+      text: "Asking the model to repair the command...",
+      isSilent: jsonOutput,
+    }).start();
+    let repaired: string;
+    try {
+      const result = await repairFfmpegCommand(
+        entry.prompt,
+        command,
+        attempts[attempts.length - 1].error || "",
+        {
+          ...modelOptions,
+          model: entry.provider,
+          provider: entry.model,
+          profile: entry.profile,
+          onFallback: reportFallback(spinner),
+          onCacheError: reportCacheError(spinner),
+        },
+      );
+      repaired = result.command;
+      spinner.succeed(
+        `Repair attempt ${attempts.length} of ${maxRepairs} generated`,
+      );
+    } catch (error) {
+      if (modelOptions.signal?.aborted) {
+        spinner.fail("Cancelled");
+        return finish("cancelled");
+      }
+      spinner.fail("Failed to repair command");
+      console.error(chalk.red("Error:"), (error as Error).message);
+      return finish("failed");
+    }
+
+    printCommandDiff(command, repaired);
+    if (repaired === command) {
+      return finish("failed");
+    }
+
+    // The repair goes through the same checks as the original command
+    const validation = configManager.getValidate()
+      ? await validateWithSpinner({ command: repaired }, spinner)
+      : undefined;
+    if (validation) {
+      logStatus(
+        `${chalk.cyan("Validation:")} ${formatValidationBadge(validation)}`,
+      );
+      validation.issues.forEach((issue) => {
+        const icon =
+          issue.severity === "error" ? chalk.red("✗") : chalk.yellow("!");
+        logStatus(`  ${icon} ${issue.message}`);
+      });
+    }
+    if (validation?.status === "fail") {
+      command = repaired;
+      attempts.push({
+        command,
+        timestamp: Date.now(),
+        error: validation.issues.map((issue) => issue.message).join("\n"),
+      });
+      console.error(chalk.red("\n✗ The repaired command failed validation"));
+      return finish("failed");
+    }
+
+    const safety = checkCommandSafety(
+      repaired,
+      configManager.getExecutionPolicy(),
+    );
+    if (
+      !(await confirmSafety(safety, "Execute the repaired command anyway?"))
+    ) {
+      return finish("failed");
+    }
+
+    command = repaired;
+  }
+}
+
+/**
+ * Run a recipe's steps in order, recording the run as a single attempt on
+ * the history entry. Recipes aren't repaired: a failed step ends the run.
+ */
+async function executeRecipe(
+  entry: HistoryEntry,
+  recipe: Recipe,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  let reporter: ProgressReporter | undefined;
+  let status: ExecutionRecord["status"] = "success";
+  let attempt: ExecutionAttempt = {
+    command: entry.command,
+    timestamp: Date.now(),
+    exitCode: 0,
+  };
+
+  try {
+    await runRecipe(recipe, {
+      onStep: (step, index) => {
+        const description = step.description ? `: ${step.description}` : "";
+        logStatus(
+          chalk.yellow(
+            `\nStep ${index + 1} of ${recipe.steps.length}${description}`,
+          ),
+        );
+        reporter = createProgressReporter();
+        return { ...reporter, onStdout: getCommandStdout() };
+      },
+      onStepEnd: () => reporter?.finish(),
+    });
+    logStatus(chalk.green("\n✓ All steps finished"));
+  } catch (error) {
+    const cause = error instanceof RecipeStepError ? error.cause : error;
+    const failed = cause instanceof CommandExecutionError ? cause : undefined;
+    status = signal?.aborted ? "cancelled" : "failed";
+    attempt = {
+      ...attempt,
+      exitCode: failed?.exitCode,
+      error: failed?.stderrTail || (error as Error).message,
+    };
+    if (status === "cancelled") {
+      console.error(chalk.yellow("\n✗ Execution cancelled"));
+    } else {
+      console.error(
+        chalk.red("\n✗ Execution failed:"),
+        (error as Error).message,
+      );
+    }
+  }
+
+  historyManager.recordExecution(entry.id, {
+    status,
+    attempts: [attempt],
+    finalCommand: entry.command,
+  });
+  return status === "success";
+}
+
+/**
+ * Show a token-level diff between two commands.
+ */
+function printCommandDiff(before: string, after: string) {
+  let a: string[];
+  let b: string[];
+  try {
+    a = parseCommandLine(before);
+    b = parseCommandLine(after);
+  } catch {
+    a = before.split(/\s+/);
+    b = after.split(/\s+/);
+  }
+
+  // Longest common subsequence table
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      parts.push(chalk.gray(a[i]));
+      i++;
+      j++;
+    } else if (
+      j < b.length &&
+      (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])
+    ) {
+      parts.push(chalk.green(`+${b[j]}`));
+      j++;
+    } else {
+      parts.push(chalk.red.strikethrough(`-${a[i]}`));
+      i++;
+    }
+  }
+
+  logStatus(`\n${chalk.cyan("Changes:")} ${parts.join(" ")}`);
+  logStatus(`${chalk.green("Command:")} ${chalk.bold(after)}`);
+}
+
+/**
+ * Offer to run the entry's command as it is or to edit it first, in
+ * $VISUAL/$EDITOR when set and inline otherwise. Edits are validated again
+ * and saved on the entry, which keeps the model's version as well. Returns
+ * undefined when the user cancelled. Recipes, JSON mode and non-interactive
+ * input skip the question.
+ */
+async function chooseCommandToRun(
+  entry: HistoryEntry,
+): Promise<HistoryEntry | undefined> {
+  if (entry.details?.recipe || jsonOutput || !process.stdin.isTTY) {
+    return entry;
+  }
+
+  while (true) {
+    const { action } = await inquirer.prompt([
+      {
+        type: "list",
+        name: "action",
+        message: "Execute the command?",
+        choices: [
+          { name: "Run it", value: "run" },
+          { name: "Edit first", value: "edit" },
+          { name: "Cancel", value: "cancel" },
+        ],
+      },
+    ]);
+    if (action === "run") {
+      return historyManager.get(entry.id) || entry;
+    }
+    if (action === "cancel") {
+      return undefined;
+    }
+
+    const current = historyManager.get(entry.id)?.command || entry.command;
+    const edited = await editCommand(current);
+    if (!edited || edited === current) {
+      console.log(chalk.gray("Command unchanged"));
+      continue;
+    }
+
+    const spinner = ora();
+    const validation = configManager.getValidate()
+      ? await validateWithSpinner({ command: edited }, spinner)
+      : undefined;
+    historyManager.recordEdit(entry.id, edited, validation);
+
+    const badge = validation ? ` ${formatValidationBadge(validation)}` : "";
+    console.log(`\n${chalk.green("Command:")} ${chalk.bold(edited)}${badge}`);
+    validation?.issues.forEach((issue) => {
+      const icon =
+        issue.severity === "error" ? chalk.red("✗") : chalk.yellow("!");
+      console.log(`  ${icon} ${issue.message}`);
+    });
+    console.log();
+  }
+}
+
+async function editCommand(command: string): Promise<string> {
+  if (process.env.VISUAL || process.env.EDITOR) {
+    const { edited } = await inquirer.prompt([
+      {
+        type: "editor",
+        name: "edited",
+        message: "Edit the command",
+        default: command,
+        postfix: ".sh",
+        waitForUseInput: false,
+      },
+    ]);
+    // Drop the trailing newline and any backslash line continuations
+    return edited
+      .replace(/\s*\\\r?\n\s*/g, " ")
+      .replace(/\s*\n\s*/g, " ")
+      .trim();
+  }
+
+  const { edited } = await inquirer.prompt([
+    {
+      type: "input",
+      name: "edited",
+      message: "Command (Tab to edit):",
+      default: command,
+    },
+  ]);
+  return edited.trim();
+}
+
+function getSafetyReport(command: string, recipe?: Recipe): SafetyReport {
+  const policy = configManager.getExecutionPolicy();
+  return recipe
+    ? checkRecipeSafety(recipe, policy)
+    : checkCommandSafety(command, policy);
+}
+
+async function confirmExecution(
+  command: string,
+  recipe?: Recipe,
+): Promise<boolean> {
+  return confirmSafety(
+    getSafetyReport(command, recipe),
+    "Execute the command anyway?",
+  );
+}
+
+// Findings listed before the question, e.g. for a large batch
+const MAX_SAFETY_ISSUES = 10;
+
+/**
+ * Show the safety findings and ask whether to go ahead. Returns false when
+ * the policy blocks execution, and true right away when nothing was found.
+ */
+async function confirmSafety(
+  report: SafetyReport,
+  question: string,
+): Promise<boolean> {
+  const policy = configManager.getExecutionPolicy();
+  if (report.issues.length === 0) {
+    return true;
+  }
+
+  logStatus(chalk.yellow("\n⚠️  Safety check:"));
+  report.issues.slice(0, MAX_SAFETY_ISSUES).forEach((issue) => {
+    const icon =
+      issue.severity === "block" ? chalk.red("✗") : chalk.yellow("!");
+    logStatus(`  ${icon} ${issue.message}`);
+  });
+  if (report.issues.length > MAX_SAFETY_ISSUES) {
+    logStatus(
+      chalk.gray(
+        `  ...and ${report.issues.length - MAX_SAFETY_ISSUES} more findings`,
+      ),
+    );
+  }
+
+  if (!report.allowed) {
+    logStatus(
+      chalk.red(`\n✗ Execution blocked by the "${policy}" safety policy.`),
+    );
+    logStatus(
+      chalk.gray("  Change it with: llmpeg config --execution-policy <policy>"),
+    );
+    return false;
+  }
+
+  // The prompt would end up in the JSON on stdout
+  if (jsonOutput) {
+    logStatus(chalk.gray("  Run without --json to confirm."));
+    return false;
+  }
+
+  const { proceed } = await inquirer.prompt([
+    {
+      type: "confirm",
+      name: "proceed",
+      message: question,
+      default: false,
+    },
+  ]);
+
+  return proceed;
+}
+
 program
   .command("init")
   .description("Initialize LLmpeg configuration with a sample config file")
@@ -156,26 +1003,37 @@ program
     }
 
     // Sample configuration with placeholder values
-    const sampleConfig = {
-      openai: {
-        apiKey: "sk-YOUR_OPENAI_API_KEY_HERE",
-        defaultModel: "gpt-4o-mini",
-      },
-      claude: {
-        apiKey: "sk-ant-REDACTED",
-        defaultModel: "claude-3-haiku-20240307",
-      },
-      gemini: {
-        apiKey: "YOUR_GEMINI_API_KEY_HERE",
-        defaultModel: "gemini-1.5-flash",
-      },
-      grok: {
-        apiKey: "xai-YOUR_GROK_API_KEY_HERE",
-        defaultModel: "grok-beta",
-      },
+    const sampleConfig: Record<string, unknown> = {};
+    for (const provider of PROVIDERS) {
+      const providerConfig: Record<string, string> = {};
+      if (provider.sampleApiKey) {
+        providerConfig.apiKey = provider.sampleApiKey;
+      }
+      providerConfig.defaultModel = provider.defaultModel;
+      for (const setting of provider.settings || []) {
+        if (setting.sample) {
+          providerConfig[setting.name] = setting.sample;
+        }
+      }
+      sampleConfig[provider.id] = providerConfig;
+    }
+    Object.assign(sampleConfig, {
       defaultProvider: "openai",
+      fallbackProviders: [],
       autoCopy: true,
-    };
+      executionPolicy: "confirm",
+      repairAttempts: 2,
+      maxParallelJobs: 1,
+      requestTimeout: 60,
+      maxRetries: 2,
+      cache: true,
+      cacheTtl: 30,
+      cacheMaxSize: 50,
+      rules: [],
+      profiles: {},
+      stream: false,
+      validate: true,
+    });
 
     try {
       writeFileSync(configFile, JSON.stringify(sampleConfig, null, 2));
@@ -193,11 +1051,24 @@ program
       console.log(
         chalk.gray("\n2. Or use the config command to set API keys:"),
       );
-      console.log(chalk.white("   llmpeg config --openai YOUR_KEY"));
-      console.log(chalk.white("   llmpeg config --claude YOUR_KEY"));
-      console.log(chalk.white("   llmpeg config --gemini YOUR_KEY"));
-      console.log(chalk.white("   llmpeg config --grok YOUR_KEY"));
-      console.log(chalk.gray("\n3. View your configuration:"));
+      PROVIDERS.filter((provider) => provider.requiresApiKey).forEach(
+        (provider) => {
+          console.log(
+            chalk.white(
+              `   llmpeg config --${provider.keyFlag || provider.id} YOUR_KEY`,
+            ),
+          );
+        },
+      );
+      console.log(
+        chalk.gray("\n   Or point LLmpeg at a local server (no key needed):"),
+      );
+      console.log(
+        chalk.white(
+          "   llmpeg config --local-url http://localhost:11434/v1 --default-provider local",
+        ),
+      );
+      console.log(chalk.gray("\n3. View your configuration:"));
       console.log(chalk.white("   llmpeg config --show"));
       console.log(chalk.gray("\n4. Start using LLmpeg:"));
       console.log(chalk.white('   llmpeg "convert video.mp4 to gif"'));
@@ -210,16 +1081,33 @@ program
     }
   });
 
-program
+// Commander stores `--local-url` as `options.localUrl`
+function toOptionKey(flag: string): string {
+  return flag.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+}
+
+const configCommand = program
   .command("config")
-  .description("Configure API keys and defaults")
-  .option("--openai <key>", "Set OpenAI API key")
-  .option("--claude <key>", "Set Claude API key")
-  .option("--gemini <key>", "Set Google Gemini API key")
-  .option("--grok <key>", "Set Grok API key")
+  .description("Configure API keys and defaults");
+
+for (const provider of PROVIDERS) {
+  configCommand.option(
+    `--${provider.keyFlag || provider.id} <key>`,
+    `Set ${provider.displayName} API key${provider.requiresApiKey ? "" : " (optional)"}`,
+  );
+  for (const setting of provider.settings || []) {
+    configCommand.option(`--${setting.flag} <value>`, setting.description);
+  }
+}
+
+configCommand
   .option(
     "--default-provider <provider>",
-    "Set default AI provider (openai, claude, gemini, grok)",
+    `Set default AI provider (${PROVIDER_IDS.join(", ")})`,
+  )
+  .option(
+    "--fallback <providers>",
+    'Providers to try in order when the default fails (comma-separated, "none" to clear)',
   )
   .option(
     "--default-model <model>",
@@ -230,133 +1118,1868 @@ program
     "--auto-copy <value>",
     "Enable/disable automatic clipboard copy (true/false)",
   )
+  .option(
+    "--stream <value>",
+    "Stream commands as they are generated (true/false)",
+  )
+  .option(
+    "--validate <value>",
+    "Check generated commands against the local ffmpeg (true/false)",
+  )
+  .option(
+    "--execution-policy <policy>",
+    "Safety policy for executing commands (strict, confirm, off)",
+  )
+  .option(
+    "--repair-attempts <n>",
+    "Times to ask the model to fix a failed command (0 disables)",
+  )
+  .option("--max-parallel-jobs <n>", "Queued jobs to run at the same time")
+  .option(
+    "--timeout <seconds>",
+    "Seconds to wait for each provider before giving up (0 disables)",
+  )
+  .option(
+    "--max-retries <n>",
+    "Retries on rate limits and server errors, with exponential backoff",
+  )
+  .option("--cache <value>", "Enable/disable the response cache (true/false)")
+  .option("--cache-ttl <days>", "Days to keep cached responses (0 = forever)")
+  .option("--cache-max-size <mb>", "Maximum size of the response cache in MB")
+  .option(
+    "--add-rule <rule>",
+    "Add a house rule to the system prompt (repeatable)",
+    (rule: string, rules: string[]) => [...rules, rule],
+    [],
+  )
+  .option("--remove-rule <n>", "Remove a house rule by its number in --show")
+  .option("--clear-rules", "Remove all house rules")
+  .option(
+    "--system-prompt-file <path>",
+    "Replace the built-in system prompt with the contents of a file",
+  )
+  .option("--reset-system-prompt", "Go back to the built-in system prompt")
+  .option(
+    "--profile <name>",
+    "Apply the rule and system prompt options to a named prompt profile",
+  )
+  .option("--delete-profile <name>", "Delete a prompt profile")
   .action(async (options) => {
     if (options.show) {
       const config = configManager.getConfig();
       console.log(chalk.cyan("Current Configuration:"));
       console.log(chalk.gray("Location: ~/.llmpeg/config.json\n"));
 
-      console.log(chalk.bold("API Keys:"));
-      console.log(
-        "  OpenAI:",
-        config.openai?.apiKey ? chalk.green("✓ Set") : chalk.red("✗ Not set"),
-      );
-      console.log(
-        "  Claude:",
-        config.claude?.apiKey ? chalk.green("✓ Set") : chalk.red("✗ Not set"),
-      );
-      console.log(
-        "  Gemini:",
-        config.gemini?.apiKey ? chalk.green("✓ Set") : chalk.red("✗ Not set"),
+      console.log(chalk.bold("API Keys:"));
+      for (const provider of PROVIDERS) {
+        const hasKey = !!config[provider.id]?.apiKey;
+        if (provider.requiresApiKey) {
+          console.log(
+            `  ${provider.displayName}:`,
+            hasKey ? chalk.green("✓ Set") : chalk.red("✗ Not set"),
+          );
+        } else {
+          console.log(
+            `  ${provider.displayName}:`,
+            configManager.isProviderConfigured(provider.id)
+              ? chalk.green(
+                  `✓ ${configManager.getProviderConfig(provider.id).baseURL}`,
+                )
+              : chalk.gray("✗ Not configured"),
+            hasKey ? chalk.gray("(key set)") : chalk.gray("(no key)"),
+          );
+        }
+      }
+
+      console.log(chalk.bold("\nDefaults:"));
+      console.log(
+        "  Default Provider:",
+        chalk.yellow(config.defaultProvider || "openai"),
+      );
+      const fallbackProviders = configManager.getFallbackProviders();
+      console.log(
+        "  Fallback Providers:",
+        fallbackProviders.length > 0
+          ? chalk.yellow(fallbackProviders.join(" → "))
+          : chalk.gray("none"),
+      );
+
+      for (const provider of PROVIDERS) {
+        const providerConfig = config[provider.id];
+        if (providerConfig?.defaultModel) {
+          console.log(
+            `  ${provider.displayName} Model:`,
+            chalk.yellow(providerConfig.defaultModel),
+          );
+        }
+        for (const setting of provider.settings || []) {
+          const value = providerConfig?.[setting.name];
+          if (setting.name !== "defaultModel" && value) {
+            console.log(
+              `  ${provider.displayName} ${setting.name}:`,
+              chalk.yellow(value),
+            );
+          }
+        }
+      }
+
+      console.log(chalk.gray("\nConfiguration Priority:"));
+      console.log(chalk.gray("1. CLI flags (highest)"));
+      console.log(chalk.gray("2. Environment variables"));
+      console.log(chalk.gray("3. ~/.llmpeg/config.json"));
+      console.log(chalk.gray("4. .env files (lowest)"));
+
+      console.log(chalk.bold("\nSettings:"));
+      console.log(
+        "  Auto-copy:",
+        config.autoCopy ? chalk.green("✓ Enabled") : chalk.gray("✗ Disabled"),
+      );
+      console.log(
+        "  Streaming:",
+        config.stream ? chalk.green("✓ Enabled") : chalk.gray("✗ Disabled"),
+      );
+      console.log(
+        "  Validation:",
+        configManager.getValidate()
+          ? chalk.green("✓ Enabled")
+          : chalk.gray("✗ Disabled"),
+      );
+      console.log(
+        "  Execution policy:",
+        chalk.yellow(configManager.getExecutionPolicy()),
+      );
+      console.log(
+        "  Repair attempts:",
+        chalk.yellow(configManager.getRepairAttempts()),
+      );
+      console.log(
+        "  Max parallel jobs:",
+        chalk.yellow(configManager.getMaxParallelJobs()),
+      );
+      console.log(
+        "  Request timeout:",
+        chalk.yellow(
+          configManager.getRequestTimeout()
+            ? `${configManager.getRequestTimeout()}s`
+            : "disabled",
+        ),
+      );
+      console.log(
+        "  Max retries:",
+        chalk.yellow(configManager.getMaxRetries()),
+      );
+      console.log(
+        "  Response cache:",
+        configManager.getCache()
+          ? chalk.green(
+              `✓ Enabled (${configManager.getCacheTtl() || "∞"} days, ${configManager.getCacheMaxSize()} MB)`,
+            )
+          : chalk.gray("✗ Disabled"),
+      );
+
+      console.log(chalk.bold("\nPrompt:"));
+      printPromptSettings();
+      const profiles = Object.keys(configManager.getProfiles());
+      if (profiles.length > 0) {
+        console.log(chalk.bold("\nPrompt Profiles:"));
+        profiles.forEach((name) => {
+          console.log(`  ${chalk.cyan(name)}`);
+          printPromptSettings(name, "    ");
+        });
+      }
+      return;
+    }
+
+    let updated = false;
+    const profile: string | undefined = options.profile;
+    const target = profile ? `profile "${profile}"` : "the system prompt";
+
+    for (const rule of options.addRule as string[]) {
+      configManager.addRule(rule, profile);
+      console.log(chalk.gray(`Added rule to ${target}: ${rule}`));
+      updated = true;
+    }
+    if (options.removeRule !== undefined) {
+      const index = Number.parseInt(options.removeRule, 10) - 1;
+      const removed = Number.isNaN(index)
+        ? undefined
+        : configManager.removeRule(index, profile);
+      if (removed === undefined) {
+        console.error(chalk.red(`No rule number ${options.removeRule}`));
+        process.exit(1);
+      }
+      console.log(chalk.gray(`Removed rule from ${target}: ${removed}`));
+      updated = true;
+    }
+    if (options.clearRules) {
+      configManager.clearRules(profile);
+      console.log(chalk.gray(`Cleared rules of ${target}`));
+      updated = true;
+    }
+    if (options.systemPromptFile) {
+      if (!existsSync(options.systemPromptFile)) {
+        console.error(chalk.red(`File not found: ${options.systemPromptFile}`));
+        process.exit(1);
+      }
+      const prompt = readFileSync(options.systemPromptFile, "utf-8").trim();
+      configManager.setSystemPrompt(prompt, profile);
+      console.log(
+        chalk.gray(
+          `Custom system prompt set${profile ? ` for profile "${profile}"` : ""}`,
+        ),
+      );
+      updated = true;
+    }
+    if (options.resetSystemPrompt) {
+      configManager.setSystemPrompt(undefined, profile);
+      console.log(
+        chalk.gray(
+          `Built-in system prompt restored${profile ? ` for profile "${profile}"` : ""}`,
+        ),
+      );
+      updated = true;
+    }
+    if (options.deleteProfile) {
+      if (!configManager.deleteProfile(options.deleteProfile)) {
+        console.error(
+          chalk.red(`Unknown prompt profile: ${options.deleteProfile}`),
+        );
+        process.exit(1);
+      }
+      console.log(chalk.gray(`Deleted profile "${options.deleteProfile}"`));
+      updated = true;
+    }
+
+    for (const provider of PROVIDERS) {
+      const key = options[toOptionKey(provider.keyFlag || provider.id)];
+      if (key) {
+        configManager.setApiKey(provider.id, key);
+        updated = true;
+      }
+      for (const setting of provider.settings || []) {
+        const value = options[toOptionKey(setting.flag)];
+        if (value) {
+          configManager.setProviderSetting(provider.id, setting.name, value);
+          updated = true;
+        }
+      }
+    }
+    if (options.defaultProvider) {
+      const provider = options.defaultProvider.toLowerCase();
+      if (!isProviderId(provider)) {
+        console.error(
+          chalk.red(`Invalid provider: ${options.defaultProvider}`),
+        );
+        console.error(
+          chalk.gray(`Valid providers: ${PROVIDER_IDS.join(", ")}`),
+        );
+        process.exit(1);
+      }
+      configManager.setDefaultProvider(provider);
+      updated = true;
+    }
+    if (options.fallback) {
+      const providers =
+        options.fallback.toLowerCase() === "none"
+          ? []
+          : options.fallback
+              .split(",")
+              .map((provider: string) => provider.trim().toLowerCase())
+              .filter(Boolean);
+      const invalid = providers.filter(
+        (provider: string) => !isProviderId(provider),
+      );
+      if (invalid.length > 0) {
+        console.error(chalk.red(`Invalid provider: ${invalid.join(", ")}`));
+        console.error(
+          chalk.gray(`Valid providers: ${PROVIDER_IDS.join(", ")}`),
+        );
+        process.exit(1);
+      }
+      configManager.setFallbackProviders(providers);
+      console.log(
+        chalk.gray(
+          providers.length > 0
+            ? `Fallback providers: ${providers.join(" → ")}`
+            : "Fallback disabled",
+        ),
+      );
+      updated = true;
+    }
+    if (options.defaultModel) {
+      const currentProvider = configManager.getDefaultProvider();
+      configManager.setDefaultModel(currentProvider, options.defaultModel);
+      console.log(
+        chalk.gray(
+          `Set default model for ${currentProvider}: ${options.defaultModel}`,
+        ),
+      );
+      updated = true;
+    }
+    if (options.autoCopy !== undefined) {
+      const value = options.autoCopy.toLowerCase() === "true";
+      configManager.setAutoCopy(value);
+      console.log(chalk.gray(`Auto-copy ${value ? "enabled" : "disabled"}`));
+      updated = true;
+    }
+    if (options.stream !== undefined) {
+      const value = options.stream.toLowerCase() === "true";
+      configManager.setStream(value);
+      console.log(chalk.gray(`Streaming ${value ? "enabled" : "disabled"}`));
+      updated = true;
+    }
+    if (options.validate !== undefined) {
+      const value = options.validate.toLowerCase() === "true";
+      configManager.setValidate(value);
+      console.log(chalk.gray(`Validation ${value ? "enabled" : "disabled"}`));
+      updated = true;
+    }
+    if (options.repairAttempts !== undefined) {
+      const attempts = parseRepairAttempts(options.repairAttempts)!;
+      configManager.setRepairAttempts(attempts);
+      console.log(chalk.gray(`Repair attempts set to ${attempts}`));
+      updated = true;
+    }
+    if (options.maxParallelJobs !== undefined) {
+      const jobs = Number.parseInt(options.maxParallelJobs, 10);
+      if (Number.isNaN(jobs) || jobs < 1) {
+        console.error(
+          chalk.red(`Invalid max parallel jobs: ${options.maxParallelJobs}`),
+        );
+        process.exit(1);
+      }
+      configManager.setMaxParallelJobs(jobs);
+      console.log(chalk.gray(`Max parallel jobs set to ${jobs}`));
+      updated = true;
+    }
+    if (options.timeout !== undefined) {
+      const seconds = Number.parseFloat(options.timeout);
+      if (Number.isNaN(seconds) || seconds < 0) {
+        console.error(chalk.red(`Invalid timeout: ${options.timeout}`));
+        process.exit(1);
+      }
+      configManager.setRequestTimeout(seconds);
+      console.log(chalk.gray(`Request timeout set to ${seconds}s`));
+      updated = true;
+    }
+    if (options.maxRetries !== undefined) {
+      const retries = Number.parseInt(options.maxRetries, 10);
+      if (Number.isNaN(retries) || retries < 0) {
+        console.error(chalk.red(`Invalid max retries: ${options.maxRetries}`));
+        process.exit(1);
+      }
+      configManager.setMaxRetries(retries);
+      console.log(chalk.gray(`Max retries set to ${retries}`));
+      updated = true;
+    }
+    if (options.cache !== undefined) {
+      const value = options.cache.toLowerCase() === "true";
+      configManager.setCache(value);
+      console.log(
+        chalk.gray(`Response cache ${value ? "enabled" : "disabled"}`),
+      );
+      updated = true;
+    }
+    if (options.cacheTtl !== undefined) {
+      const days = Number.parseFloat(options.cacheTtl);
+      if (Number.isNaN(days) || days < 0) {
+        console.error(chalk.red(`Invalid cache TTL: ${options.cacheTtl}`));
+        process.exit(1);
+      }
+      configManager.setCacheTtl(days);
+      console.log(chalk.gray(`Cache TTL set to ${days} days`));
+      updated = true;
+    }
+    if (options.cacheMaxSize !== undefined) {
+      const megabytes = Number.parseFloat(options.cacheMaxSize);
+      if (Number.isNaN(megabytes) || megabytes <= 0) {
+        console.error(chalk.red(`Invalid cache size: ${options.cacheMaxSize}`));
+        process.exit(1);
+      }
+      configManager.setCacheMaxSize(megabytes);
+      console.log(chalk.gray(`Cache size limit set to ${megabytes} MB`));
+      updated = true;
+    }
+    if (options.executionPolicy) {
+      const policy = options.executionPolicy.toLowerCase() as ExecutionPolicy;
+      if (!EXECUTION_POLICIES.includes(policy)) {
+        console.error(
+          chalk.red(`Invalid execution policy: ${options.executionPolicy}`),
+        );
+        console.error(
+          chalk.gray(`Valid policies: ${EXECUTION_POLICIES.join(", ")}`),
+        );
+        process.exit(1);
+      }
+      configManager.setExecutionPolicy(policy);
+      console.log(chalk.gray(`Execution policy set to ${policy}`));
+      updated = true;
+    }
+
+    if (updated) {
+      await configManager.save();
+      console.log(
+        chalk.green("✓ Configuration saved to ~/.llmpeg/config.json"),
+      );
+    } else {
+      console.log(chalk.yellow("No configuration changes made."));
+      console.log(chalk.gray("Use --help to see available options."));
+    }
+  });
+
+program
+  .command("explain")
+  .description("Explain what an existing FFmpeg command does")
+  .option("-m, --model <model>", `AI model to use (${PROVIDER_IDS.join(", ")})`)
+  .option("-p, --provider <provider>", "Model provider specific variant")
+  .option("--no-fallback", "Only use the selected provider, never fall back")
+  .option("--timeout <seconds>", "Seconds to wait for each provider")
+  .argument("<command...>", "FFmpeg command to explain")
+  // A pasted command's own flags (-i, -c:v, ...) belong to the command
+  .passThroughOptions()
+  .allowUnknownOption()
+  .action(async (commandParts: string[], options) => {
+    // Unquoted, the shell has split the command into arguments already
+    const command =
+      commandParts.length === 1
+        ? commandParts[0]
+        : commandParts.map(quoteArgument).join(" ");
+    const model = options.model || configManager.getDefaultProvider();
+    const provider = options.provider || configManager.getDefaultModel(model);
+
+    const spinner = ora("Analyzing FFmpeg command...").start();
+    const controller = abortOnInterrupt();
+
+    try {
+      const explanation = await explainFfmpegCommand(command, {
+        model,
+        provider,
+        fallback: options.fallback,
+        signal: controller.signal,
+        timeout: parseTimeout(options.timeout),
+        onFallback: reportFallback(spinner),
+        onCacheError: reportCacheError(spinner),
+      });
+      spinner.succeed("Command analyzed successfully!");
+      printExplanation(command, explanation);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        spinner.fail("Cancelled");
+        process.exit(130);
+      }
+      spinner.fail("Failed to explain command");
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+function printExplanation(command: string, explanation: CommandExplanation) {
+  console.log(`\n${chalk.green("Command:")} ${chalk.bold(command)}`);
+  console.log(`\n${chalk.cyan("Summary:")} ${explanation.summary}`);
+
+  const scopeLabels = {
+    global: "Global options",
+    input: "Input",
+    output: "Output",
+  };
+
+  explanation.sections.forEach((section) => {
+    const label = scopeLabels[section.scope];
+    console.log(
+      chalk.bold.blue(
+        `\n${label}${section.target ? `: ${section.target}` : ""}`,
+      ),
+    );
+
+    section.options.forEach((option) => {
+      const flag = option.value
+        ? `${option.flag} ${option.value}`
+        : option.flag;
+      console.log(`  ${chalk.yellow(flag)}`);
+      console.log(`    ${chalk.gray(option.description)}`);
+    });
+
+    if (section.filters.length > 0) {
+      console.log(chalk.bold("  Filters:"));
+      section.filters.forEach((filter) => {
+        const name = filter.args
+          ? `${filter.name}=${filter.args}`
+          : filter.name;
+        console.log(`    ${chalk.magenta(name)}`);
+        console.log(`      ${chalk.gray(filter.description)}`);
+      });
+    }
+  });
+
+  if (explanation.warnings.length > 0) {
+    console.log(chalk.yellow("\n⚠️  Warnings:"));
+    explanation.warnings.forEach((warning) => {
+      console.log(`  ${chalk.yellow("!")} ${warning}`);
+    });
+  }
+}
+
+interface ChatTurn extends ConversationTurn {
+  result: GenerationResult;
+  validation?: ValidationResult;
+}
+
+interface ChatSession {
+  model: string;
+  provider?: string;
+  profile?: string;
+  fallback?: boolean;
+  timeout?: number;
+  turns: ChatTurn[];
+  // History entry of the current command, once it has been recorded
+  entry?: HistoryEntry;
+}
+
+const CHAT_COMMANDS: [string, string][] = [
+  ["/run", "Execute the current command"],
+  ["/copy", "Copy the current command to the clipboard"],
+  ["/explain", "Explain the current command flag by flag"],
+  ["/undo", "Go back to the previous command"],
+  ["/save-preset", "Save the conversation as a custom preset"],
+  ["/model [model] [provider]", "Show or switch the model"],
+  ["/help", "Show these commands"],
+  ["/exit", "End the session (or press Ctrl-C)"],
+];
+
+program
+  .command("chat")
+  .description("Build up a command over several requests in a conversation")
+  .option("-m, --model <model>", `AI model to use (${PROVIDER_IDS.join(", ")})`)
+  .option("-p, --provider <provider>", "Model provider specific variant")
+  .option("--profile <name>", "Use a prompt profile from the config")
+  .option("--no-fallback", "Only use the selected provider, never fall back")
+  .option("--timeout <seconds>", "Seconds to wait for each provider")
+  .action(async (options) => {
+    const model = options.model || configManager.getDefaultProvider();
+    const session: ChatSession = {
+      model,
+      provider: options.provider || configManager.getDefaultModel(model),
+      profile: options.profile,
+      fallback: options.fallback,
+      timeout: parseTimeout(options.timeout),
+      turns: [],
+    };
+
+    console.log(
+      chalk.cyan(
+        "\n💬 Describe what you want, then refine it one request at a time.",
+      ),
+    );
+    console.log(chalk.gray("   Type /help for the available commands.\n"));
+
+    while (true) {
+      let line: string;
+      try {
+        ({ line } = await inquirer.prompt([
+          { type: "input", name: "line", message: "›" },
+        ]));
+      } catch {
+        // Ctrl-C at the prompt
+        break;
+      }
+
+      line = line.trim();
+      if (!line) {
+        continue;
+      }
+      if (!line.startsWith("/")) {
+        await refineInChat(session, line);
+        continue;
+      }
+
+      const [name, ...args] = line.split(/\s+/);
+      if (name === "/exit" || name === "/quit") {
+        break;
+      }
+      await runChatCommand(session, name, args);
+    }
+
+    const entry = recordChatSession(session);
+    if (entry) {
+      console.log(
+        chalk.gray(
+          `\nSaved to history as ${entry.id.slice(0, 8)}: ${getWorkingCommand(entry)}`,
+        ),
+      );
+    }
+  });
+
+/**
+ * Generate the next command of a chat session, with the earlier requests
+ * and commands as context. Ctrl-C cancels the request but not the session.
+ */
+async function refineInChat(session: ChatSession, prompt: string) {
+  const spinner = ora(
+    session.turns.length > 0
+      ? "Refining the command..."
+      : "Generating FFmpeg command...",
+  ).start();
+
+  await withInterrupt(async (signal) => {
+    try {
+      const result = await generateFfmpegCommand(prompt, {
+        ...getChatModelOptions(session, signal),
+        profile: session.profile,
+        conversation: session.turns.map((turn) => ({
+          prompt: turn.prompt,
+          command: turn.command,
+        })),
+        onFallback: reportFallback(spinner),
+        onCacheError: reportCacheError(spinner),
+      });
+      spinner.succeed(
+        session.turns.length > 0
+          ? "Command refined"
+          : "Command generated successfully!",
+      );
+
+      const validation = configManager.getValidate()
+        ? await validateWithSpinner(result, spinner)
+        : undefined;
+      printGenerationResult(prompt, result, false, validation);
+
+      session.turns.push({
+        prompt,
+        command: result.command,
+        result,
+        validation,
+      });
+      session.entry = undefined;
+    } catch (error) {
+      if (signal.aborted) {
+        spinner.fail("Cancelled");
+        return;
+      }
+      spinner.fail("Failed to generate command");
+      console.error(chalk.red("Error:"), (error as Error).message);
+    }
+  });
+}
+
+async function runChatCommand(
+  session: ChatSession,
+  name: string,
+  args: string[],
+) {
+  const turn = session.turns[session.turns.length - 1];
+  const needsCommand = ["/run", "/copy", "/explain", "/undo", "/save-preset"];
+  if (!turn && needsCommand.includes(name)) {
+    console.log(chalk.yellow("No command yet. Describe what you want first."));
+    return;
+  }
+
+  switch (name) {
+    case "/run": {
+      const entry = recordChatSession(session)!;
+      if (!(await confirmExecution(entry.command, entry.details?.recipe))) {
+        return;
+      }
+      await withInterrupt((signal) =>
+        executeWithRepair(
+          entry,
+          configManager.getRepairAttempts(),
+          getChatModelOptions(session, signal),
+        ),
+      );
+      // Keep refining the repaired command when a repair made it work
+      session.entry = historyManager.get(entry.id) || entry;
+      turn.command = getWorkingCommand(session.entry);
+      return;
+    }
+
+    case "/copy":
+      try {
+        await copyToClipboard(turn.command);
+        console.log(chalk.yellow("✓ Command copied to clipboard"));
+      } catch (error) {
+        console.log(
+          chalk.red("✗ Failed to copy to clipboard:"),
+          (error as Error).message,
+        );
+      }
+      return;
+
+    case "/explain": {
+      const spinner = ora("Analyzing FFmpeg command...").start();
+      await withInterrupt(async (signal) => {
+        try {
+          const explanation = await explainFfmpegCommand(turn.command, {
+            ...getChatModelOptions(session, signal),
+            onFallback: reportFallback(spinner),
+            onCacheError: reportCacheError(spinner),
+          });
+          spinner.succeed("Command analyzed successfully!");
+          printExplanation(turn.command, explanation);
+        } catch (error) {
+          spinner.fail(
+            signal.aborted ? "Cancelled" : "Failed to explain command",
+          );
+          if (!signal.aborted) {
+            console.error(chalk.red("Error:"), (error as Error).message);
+          }
+        }
+      });
+      return;
+    }
+
+    case "/undo": {
+      session.turns.pop();
+      session.entry = undefined;
+      const previous = session.turns[session.turns.length - 1];
+      console.log(
+        previous
+          ? `${chalk.green("Back to:")} ${chalk.bold(previous.command)}`
+          : chalk.gray("Back to the start. Describe what you want."),
+      );
+      return;
+    }
+
+    case "/save-preset":
+      await saveChatPreset(session, turn);
+      return;
+
+    case "/model": {
+      const [model, provider] = args;
+      if (model) {
+        if (!isProviderId(model)) {
+          console.log(
+            chalk.red(
+              `Unknown model type: ${model}. Supported models: ${PROVIDER_IDS.join(", ")}`,
+            ),
+          );
+          return;
+        }
+        session.model = model;
+        session.provider = provider || configManager.getDefaultModel(model);
+      }
+      console.log(
+        `${chalk.cyan("Model:")} ${session.model}${session.provider ? `/${session.provider}` : ""}`,
+      );
+      return;
+    }
+
+    case "/help":
+      console.log(chalk.cyan("\nCommands:"));
+      CHAT_COMMANDS.forEach(([command, description]) => {
+        console.log(`  ${chalk.bold(command.padEnd(26))} ${description}`);
+      });
+      console.log(chalk.gray("\nAnything else refines the current command.\n"));
+      return;
+
+    default:
+      console.log(
+        chalk.yellow(`Unknown command ${name}. Type /help for the commands.`),
+      );
+  }
+}
+
+function getChatModelOptions(
+  session: ChatSession,
+  signal: AbortSignal,
+): Parameters<typeof explainFfmpegCommand>[1] {
+  return {
+    model: session.model,
+    provider: session.provider,
+    fallback: session.fallback,
+    timeout: session.timeout,
+    signal,
+  };
+}
+
+/**
+ * Run a task that Ctrl-C should cancel without ending the process, as
+ * abortOnInterrupt does for single commands.
+ */
+async function withInterrupt<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort();
+  process.on("SIGINT", onInterrupt);
+  try {
+    return await task(controller.signal);
+  } finally {
+    process.off("SIGINT", onInterrupt);
+  }
+}
+
+/**
+ * Record the session's current command in the history, along with every
+ * request that led to it. Recorded once per command, so /run and the end
+ * of the session share an entry.
+ */
+function recordChatSession(session: ChatSession): HistoryEntry | undefined {
+  const turn = session.turns[session.turns.length - 1];
+  if (!turn || session.entry) {
+    return session.entry;
+  }
+
+  const {
+    command,
+    provider: answeredBy,
+    model: answeredModel,
+    ...details
+  } = turn.result;
+  // Another llmpeg process may have written to the history meanwhile
+  historyManager.reload();
+  session.entry = historyManager.add({
+    prompt: session.turns.map((t) => t.prompt).join("; "),
+    command,
+    provider: answeredBy,
+    model: answeredModel,
+    profile: session.profile,
+    details,
+    validation: turn.validation,
+    conversation: session.turns.map((t) => ({
+      prompt: t.prompt,
+      command: t.command,
+    })),
+  });
+  return session.entry;
+}
+
+/**
+ * Save the conversation as a custom preset. Its prompt starts out as the
+ * session's requests joined together and can be edited before saving.
+ */
+async function saveChatPreset(session: ChatSession, turn: ChatTurn) {
+  const answers = await inquirer.prompt([
+    {
+      type: "input",
+      name: "name",
+      message: "Preset name:",
+      validate: (input: string) => input.length > 0 || "Name is required",
+    },
+    {
+      type: "input",
+      name: "description",
+      message: "Description:",
+      default: turn.result.explanation,
+    },
+    {
+      type: "list",
+      name: "category",
+      message: "Category:",
+      choices: presetManager.getCategories(),
+    },
+    {
+      type: "input",
+      name: "prompt",
+      message: "Prompt:",
+      default: session.turns.map((t) => t.prompt).join(". "),
+      validate: (input: string) => input.length > 0 || "Prompt is required",
+    },
+  ]);
+
+  presetManager.addCustomPreset({
+    name: answers.name,
+    description: answers.description,
+    category: answers.category,
+    prompt: answers.prompt,
+    tags: [],
+    difficulty: "intermediate",
+    commonUse: false,
+    recipe: turn.result.recipe ? true : undefined,
+  });
+  console.log(chalk.green(`✓ Preset "${answers.name}" saved`));
+}
+
+program
+  .command("refine")
+  .description("Change a command from the history with a new instruction")
+  .argument(
+    "<id>",
+    "History entry to refine (ID or prefix from history --list)",
+  )
+  .argument("<instruction...>", "What to change about the command")
+  .option(
+    "-m, --model <model>",
+    "AI model to use (default: the one that generated the entry)",
+  )
+  .option("-p, --provider <provider>", "Model provider specific variant")
+  .option("-c, --copy", "Copy the refined command to clipboard")
+  .option("-e, --execute", "Execute the refined command")
+  .option("--no-fallback", "Only use the selected provider, never fall back")
+  .option("--timeout <seconds>", "Seconds to wait for each provider")
+  .action(async (id: string, instructionParts: string[], options) => {
+    const parent = historyManager.get(id);
+    if (!parent?.command) {
+      console.error(
+        chalk.red(
+          parent
+            ? `History entry "${id}" has no command`
+            : `History entry "${id}" not found`,
+        ),
+      );
+      process.exit(1);
+    }
+
+    const controller = abortOnInterrupt();
+    const modelOptions: ModelOptions = {
+      model: options.model || parent.provider,
+      provider: options.model
+        ? options.provider
+        : options.provider || parent.model,
+      fallback: options.fallback,
+      signal: controller.signal,
+      timeout: parseTimeout(options.timeout),
+    };
+
+    const entry = await refineHistoryEntry(
+      parent,
+      instructionParts.join(" "),
+      modelOptions,
+    );
+    if (!entry) {
+      process.exit(controller.signal.aborted ? 130 : 1);
+    }
+
+    if (options.copy) {
+      try {
+        await copyToClipboard(entry.command);
+        console.log(chalk.yellow("\n✓ Command copied to clipboard"));
+      } catch (error) {
+        console.log(
+          chalk.red("\n✗ Failed to copy to clipboard:"),
+          (error as Error).message,
+        );
+      }
+    }
+
+    const target = options.execute
+      ? await chooseCommandToRun(entry)
+      : undefined;
+    if (
+      target &&
+      (await confirmExecution(target.command, target.details?.recipe))
+    ) {
+      const succeeded = await executeWithRepair(
+        target,
+        configManager.getRepairAttempts(),
+        modelOptions,
+      );
+      if (controller.signal.aborted) {
+        process.exit(130);
+      }
+      if (!succeeded) {
+        process.exit(1);
+      }
+    }
+  });
+
+/**
+ * Ask the model to change a history entry's command, sending the requests
+ * that led to it as a conversation. The result is saved as a new entry
+ * linked to its parent. Returns undefined when generation failed.
+ */
+async function refineHistoryEntry(
+  parent: HistoryEntry,
+  instruction: string,
+  modelOptions: ModelOptions,
+): Promise<HistoryEntry | undefined> {
+  const turns = parent.conversation || [
+    { prompt: parent.prompt, command: parent.command },
+  ];
+  // Build on the command that actually ran when a repair fixed it
+  const conversation = [
+    ...turns.slice(0, -1),
+    { ...turns[turns.length - 1], command: getWorkingCommand(parent) },
+  ];
+
+  const spinner = ora("Refining the command...").start();
+  try {
+    const result = await generateFfmpegCommand(instruction, {
+      ...modelOptions,
+      profile: parent.profile,
+      conversation,
+      onFallback: reportFallback(spinner),
+      onCacheError: reportCacheError(spinner),
+    });
+    spinner.succeed("Command refined");
+
+    const validation = configManager.getValidate()
+      ? await validateWithSpinner(result, spinner)
+      : undefined;
+    printGenerationResult(instruction, result, false, validation);
+
+    const {
+      command,
+      provider: answeredBy,
+      model: answeredModel,
+      ...details
+    } = result;
+    const entry = historyManager.add({
+      prompt: `${parent.prompt}; ${instruction}`,
+      command,
+      provider: answeredBy,
+      model: answeredModel,
+      profile: parent.profile,
+      details,
+      validation,
+      conversation: [...conversation, { prompt: instruction, command }],
+      parentId: parent.id,
+    });
+    console.log(
+      chalk.gray(
+        `\nSaved as ${entry.id.slice(0, 8)}, refined from ${parent.id.slice(0, 8)}`,
+      ),
+    );
+    return entry;
+  } catch (error) {
+    if (modelOptions.signal?.aborted) {
+      spinner.fail("Cancelled");
+      return undefined;
+    }
+    spinner.fail("Failed to refine command");
+    console.error(chalk.red("Error:"), (error as Error).message);
+    return undefined;
+  }
+}
+
+/**
+ * Show the tree of refinements an entry belongs to, from the entry it
+ * started with down to every command refined from it.
+ */
+function printLineage(current: HistoryEntry) {
+  const root = historyManager.getLineageRoot(current.id) || current;
+  console.log(chalk.cyan("\nLineage:\n"));
+
+  const visit = (
+    entry: HistoryEntry,
+    prefix: string,
+    connector: string,
+    indent: string,
+  ) => {
+    // Refinements are labelled with their own instruction
+    const turns = entry.conversation;
+    const label =
+      entry !== root && turns ? turns[turns.length - 1].prompt : entry.prompt;
+    const marker = entry.id === current.id ? chalk.yellow(" ◀") : "";
+    const children = historyManager.getChildren(entry.id);
+
+    console.log(
+      `${prefix}${connector}${chalk.gray(entry.id.slice(0, 8))} ${label}${marker}`,
+    );
+    console.log(
+      `${prefix}${indent}${children.length > 0 ? "│" : " "}  ${chalk.green(entry.command)}`,
+    );
+    children.forEach((child, index) => {
+      const last = index === children.length - 1;
+      visit(child, prefix + indent, last ? "└─ " : "├─ ", last ? "   " : "│  ");
+    });
+  };
+
+  visit(root, "", "", "");
+}
+
+program
+  .command("batch")
+  .description("Apply one prompt to many files")
+  .option("-m, --model <model>", `AI model to use (${PROVIDER_IDS.join(", ")})`)
+  .option("-p, --provider <provider>", "Model provider specific variant")
+  .option(
+    "-o, --output <pattern>",
+    "Output name without extension ({dir}, {name}, {ext}, {index})",
+    DEFAULT_OUTPUT_PATTERN,
+  )
+  .option("-j, --concurrency <n>", "Files to process at the same time", "2")
+  .option("-y, --yes", "Run without asking for approval")
+  .option(
+    "--script <file>",
+    "Write the commands to a bash (.sh) or PowerShell (.ps1) script instead of running them",
+  )
+  .option("--profile <name>", "Use a prompt profile from the config")
+  .option("--no-fallback", "Only use the selected provider, never fall back")
+  .option("--timeout <seconds>", "Seconds to wait for each provider")
+  .argument("<prompt>", "What to do with each file")
+  .argument("<files...>", 'Files or quoted glob patterns, e.g. "**/*.mov"')
+  .action(async (prompt: string, patterns: string[], options) => {
+    const concurrency = Number.parseInt(options.concurrency, 10);
+    if (Number.isNaN(concurrency) || concurrency < 1) {
+      console.error(chalk.red(`Invalid concurrency: ${options.concurrency}`));
+      process.exit(1);
+    }
+
+    const files = expandGlobs(patterns);
+    if (files.length === 0) {
+      console.error(chalk.red("No files matched."));
+      process.exit(1);
+    }
+
+    const model = options.model || configManager.getDefaultProvider();
+    const provider = options.provider || configManager.getDefaultModel(model);
+
+    const spinner = ora(
+      `Generating a command template for ${files.length} files...`,
+    ).start();
+    const controller = abortOnInterrupt();
+    let result: GenerationResult;
+    let plan: BatchFile[];
+
+    try {
+      result = await generateFfmpegCommand(buildBatchPrompt(prompt, files[0]), {
+        model,
+        provider,
+        fallback: options.fallback,
+        signal: controller.signal,
+        timeout: parseTimeout(options.timeout),
+        profile: options.profile,
+        recipe: false,
+        onFallback: reportFallback(spinner),
+        onCacheError: reportCacheError(spinner),
+      });
+
+      if (result.recipe) {
+        throw new Error(
+          "The model answered with several steps, which batch processing doesn't support.\nTry rephrasing the prompt.",
+        );
+      }
+
+      if (!isBatchTemplate(result.command)) {
+        throw new Error(
+          `The model didn't use the {input} and {output} placeholders: ${result.command}\nTry rephrasing the prompt.`,
+        );
+      }
+      plan = planBatch(result.command, files, options.output);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        spinner.fail("Cancelled");
+        process.exit(130);
+      }
+      spinner.fail("Failed to generate a command template");
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
+    }
+
+    spinner.succeed("Command template generated!");
+    const validation = configManager.getValidate()
+      ? await validateWithSpinner({ command: plan[0].command }, spinner)
+      : undefined;
+
+    printGenerationResult(prompt, result, false, validation);
+    console.log(
+      `\n${chalk.cyan("Files:")} ${plan.length} (${concurrency} at a time)`,
+    );
+    plan.slice(0, 3).forEach((file) => {
+      console.log(chalk.gray(`  ${file.input} → ${file.output}`));
+    });
+    if (plan.length > 3) {
+      console.log(chalk.gray(`  ...and ${plan.length - 3} more`));
+    }
+
+    if (options.script) {
+      writeScript(
+        options.script,
+        plan.map((file) => ({ command: file.command })),
+        { description: describeForScript(prompt, result.explanation) },
+      );
+      return;
+    }
+
+    // One question for the whole batch, with the findings for every file
+    const safety = checkBatchSafety(plan, configManager.getExecutionPolicy());
+    if (safety.issues.length > 0) {
+      const confirmed = await confirmSafety(
+        safety,
+        `Run the command on ${plan.length} files anyway?`,
+      );
+      if (!confirmed) {
+        process.exit(1);
+      }
+    } else if (!options.yes) {
+      const { proceed } = await inquirer.prompt([
+        {
+          type: "confirm",
+          name: "proceed",
+          message: `Run the command on ${plan.length} files?`,
+          default: true,
+        },
+      ]);
+      if (!proceed) {
+        return;
+      }
+    }
+
+    const {
+      command: _template,
+      provider: answeredBy,
+      model: answeredModel,
+      ...details
+    } = result;
+    let finished = 0;
+
+    console.log(chalk.yellow(`\nProcessing ${plan.length} files...`));
+    const results = await runBatch(plan, {
+      concurrency,
+      signal: controller.signal,
+      onResult: (batchResult) => {
+        const { file } = batchResult;
+        finished++;
+        console.log(
+          `${formatBatchStatus(batchResult.status)} [${finished}/${plan.length}] ${file.input} ${chalk.gray(formatDuration(batchResult.duration))}`,
+        );
+
+        // Every file gets its own history entry with its execution attached
+        const entry = historyManager.add({
+          prompt,
+          command: file.command,
+          provider: answeredBy,
+          model: answeredModel,
+          profile: options.profile,
+          details,
+          validation: file.index === 0 ? validation : undefined,
+        });
+        historyManager.recordExecution(entry.id, {
+          status: batchResult.status,
+          attempts: batchResult.startedAt
+            ? [
+                {
+                  command: file.command,
+                  timestamp: batchResult.startedAt,
+                  exitCode: batchResult.exitCode,
+                  error: batchResult.error,
+                },
+              ]
+            : [],
+          finalCommand: file.command,
+        });
+      },
+    });
+
+    printBatchSummary(results);
+
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    if (results.some((batchResult) => batchResult.status !== "success")) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command("watch")
+  .description("Apply a preset to every new media file dropped into a folder")
+  .requiredOption("--preset <id>", "Preset to apply ({input} is the new file)")
+  .option(
+    "--param <name=value>",
+    "Value for a preset parameter (repeatable)",
+    (param: string, params: string[]) => [...params, param],
+    [],
+  )
+  .option(
+    "-o, --output-dir <dir>",
+    "Where outputs are written",
+    "<dir>/processed",
+  )
+  .option(
+    "--quarantine <dir>",
+    "Where inputs that fail are moved",
+    "<dir>/quarantine",
+  )
+  .option("--log <file>", "Log file", "<dir>/llmpeg-watch.log")
+  .option(
+    "--settle <seconds>",
+    "Seconds a file must stay unchanged before it is processed",
+    "5",
+  )
+  .option("--existing", "Also process files already in the folder")
+  .option("-m, --model <model>", `AI model to use (${PROVIDER_IDS.join(", ")})`)
+  .option("-p, --provider <provider>", "Model provider specific variant")
+  .option("--profile <name>", "Use a prompt profile from the config")
+  .option("--no-fallback", "Only use the selected provider, never fall back")
+  .option("--timeout <seconds>", "Seconds to wait for each provider")
+  .argument("<dir>", "Folder to watch")
+  .action(async (dir: string, options) => {
+    const preset = presetManager.getPresetById(options.preset);
+    if (!preset) {
+      console.error(chalk.red(`Preset "${options.preset}" not found`));
+      process.exit(1);
+    }
+    if (!preset.prompt.includes("{input}")) {
+      console.error(
+        chalk.red(`Preset "${preset.id}" has no {input} to bind files to`),
+      );
+      process.exit(1);
+    }
+
+    const parameters: Record<string, string> = {};
+    for (const param of options.param as string[]) {
+      const separator = param.indexOf("=");
+      if (separator <= 0) {
+        console.error(
+          chalk.red(`Invalid parameter: ${param} (use name=value)`),
+        );
+        process.exit(1);
+      }
+      parameters[param.slice(0, separator)] = param.slice(separator + 1);
+    }
+    const missing = (preset.parameters || []).filter(
+      (param) =>
+        param.required &&
+        param.name !== "input" &&
+        parameters[param.name] === undefined &&
+        param.default === undefined,
+    );
+    if (missing.length > 0) {
+      console.error(chalk.red("Missing required preset parameters:"));
+      missing.forEach((param) => {
+        console.error(
+          `  --param ${param.name}=... ${chalk.gray(param.description)}`,
+        );
+      });
+      process.exit(1);
+    }
+
+    const settle = Number.parseFloat(options.settle);
+    if (Number.isNaN(settle) || settle < 0) {
+      console.error(chalk.red(`Invalid settle time: ${options.settle}`));
+      process.exit(1);
+    }
+
+    const resolveDir = (path: string) => path.replace("<dir>", dir);
+    const model = options.model || configManager.getDefaultProvider();
+    const provider = options.provider || configManager.getDefaultModel(model);
+    const { input: _input, ...boundParameters } = parameters;
+    const prompt = presetManager.buildPromptFromPreset(
+      preset.id,
+      boundParameters,
+    );
+
+    const spinner = ora("Generating a command template...").start();
+    const controller = abortOnInterrupt();
+    let result: GenerationResult;
+    try {
+      result = await generateFfmpegCommand(buildBatchPrompt(prompt), {
+        model,
+        provider,
+        fallback: options.fallback,
+        signal: controller.signal,
+        timeout: parseTimeout(options.timeout),
+        profile: options.profile,
+        recipe: false,
+        onFallback: reportFallback(spinner),
+        onCacheError: reportCacheError(spinner),
+      });
+
+      if (result.recipe) {
+        throw new Error(
+          "The model answered with several steps, which watch folders don't support.",
+        );
+      }
+
+      if (!isBatchTemplate(result.command)) {
+        throw new Error(
+          `The model didn't use the {input} and {output} placeholders: ${result.command}`,
+        );
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        spinner.fail("Cancelled");
+        process.exit(130);
+      }
+      spinner.fail("Failed to generate a command template");
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
+    }
+    spinner.succeed("Command template generated!");
+    printGenerationResult(prompt, result);
+
+    if (!(await confirmExecution(result.command))) {
+      process.exit(1);
+    }
+
+    const {
+      command: _template,
+      provider: answeredBy,
+      model: answeredModel,
+      ...details
+    } = result;
+    const logColors: Record<WatchLogLevel, (text: string) => string> = {
+      info: chalk.gray,
+      error: chalk.red,
+    };
+
+    const outputDir = resolveDir(options.outputDir);
+    const watcher = new FolderWatcher({
+      dir,
+      template: result.command,
+      outputDir,
+      quarantineDir: resolveDir(options.quarantine),
+      logFile: resolveDir(options.log),
+      stateFile: join(outputDir, ".llmpeg-watch.json"),
+      interval: 1000,
+      settle: settle * 1000,
+      existing: options.existing,
+      signal: controller.signal,
+      onLog: (level, message) => {
+        console.log(
+          `${chalk.gray(new Date().toLocaleTimeString())} ${logColors[level](message)}`,
+        );
+      },
+      onResult: (batchResult) => {
+        historyManager.reload();
+        const entry = historyManager.add({
+          prompt: prompt.replace("{input}", batchResult.file.input),
+          command: batchResult.file.command,
+          provider: answeredBy,
+          model: answeredModel,
+          profile: options.profile,
+          category: preset.category,
+          details,
+        });
+        historyManager.recordExecution(entry.id, {
+          status: batchResult.status,
+          attempts: [
+            {
+              command: batchResult.file.command,
+              timestamp: batchResult.startedAt ?? Date.now(),
+              exitCode: batchResult.exitCode,
+              error: batchResult.error,
+            },
+          ],
+          finalCommand: batchResult.file.command,
+        });
+      },
+    });
+
+    try {
+      watcher.start();
+    } catch (error) {
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
+    }
+    console.log(chalk.cyan("\nPress Ctrl-C to stop.\n"));
+
+    // SIGTERM lets the current file finish. Ctrl-C reaches ffmpeg as well, so
+    // the current file is cancelled and left for the next start. A second
+    // signal exits right away.
+    const shutdown = async () => {
+      await watcher.stop();
+      process.exit(0);
+    };
+    controller.signal.addEventListener("abort", shutdown, { once: true });
+    process.once("SIGTERM", () => {
+      process.once("SIGTERM", () => process.exit(143));
+      void shutdown();
+    });
+  });
+
+function formatBatchStatus(status: BatchResult["status"]): string {
+  switch (status) {
+    case "success":
+      return chalk.green("✓");
+    case "failed":
+      return chalk.red("✗");
+    case "cancelled":
+      return chalk.yellow("-");
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms < 60_000
+    ? `${(ms / 1000).toFixed(1)}s`
+    : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+}
+
+function printBatchSummary(results: BatchResult[]) {
+  const rows = results.map((result) => [
+    result.status,
+    result.file.input,
+    result.file.output,
+    result.status === "cancelled" && !result.startedAt
+      ? "-"
+      : formatDuration(result.duration),
+  ]);
+  const headers = ["Status", "Input", "Output", "Time"];
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length)),
+  );
+  const colors: Record<BatchResult["status"], (text: string) => string> = {
+    success: chalk.green,
+    failed: chalk.red,
+    cancelled: chalk.yellow,
+  };
+
+  console.log(chalk.bold("\nSummary:\n"));
+  console.log(
+    chalk.bold(headers.map((header, i) => header.padEnd(widths[i])).join("  ")),
+  );
+  results.forEach((result, index) => {
+    const [status, ...cells] = rows[index].map((cell, i) =>
+      cell.padEnd(widths[i]),
+    );
+    console.log([colors[result.status](status), ...cells].join("  "));
+  });
+
+  const count = (status: BatchResult["status"]) =>
+    results.filter((result) => result.status === status).length;
+  console.log(
+    `\n${chalk.green(`${count("success")} succeeded`)}, ${chalk.red(`${count("failed")} failed`)}, ${chalk.yellow(`${count("cancelled")} cancelled`)}`,
+  );
+
+  const failures = results.filter((result) => result.status === "failed");
+  if (failures.length > 0) {
+    console.log(chalk.red("\nErrors:"));
+    failures.forEach((result) => {
+      const lastLine = result.error?.trim().split("\n").pop() ?? "";
+      console.log(`  ${result.file.input}: ${chalk.gray(lastLine)}`);
+    });
+  }
+}
+
+const jobs = program
+  .command("jobs")
+  .description("Queue long-running commands and run them in the background");
+
+jobs
+  .command("add")
+  .description("Queue a command")
+  .option("--from-history <id>", "Queue a command from the history")
+  .argument("[command...]", "FFmpeg command to queue (quote it)")
+  .action(async (commandParts: string[], options) => {
+    const entry = options.fromHistory
+      ? historyManager.get(options.fromHistory)
+      : undefined;
+    if (options.fromHistory && !entry) {
+      console.error(
+        chalk.red(`History entry "${options.fromHistory}" not found`),
+      );
+      process.exit(1);
+    }
+    if (entry?.details?.recipe) {
+      console.error(chalk.red("Multi-step recipes can't be queued as jobs"));
+      process.exit(1);
+    }
+
+    const command = entry ? getWorkingCommand(entry) : commandParts.join(" ");
+    if (!command) {
+      console.error(chalk.red("Give a command or --from-history <id>"));
+      process.exit(1);
+    }
+    if (!(await confirmExecution(command))) {
+      process.exit(1);
+    }
+
+    const job = jobManager.add(command, {
+      prompt: entry?.prompt,
+      historyId: entry?.id,
+    });
+    console.log(chalk.green(`✓ Queued job ${job.id}`));
+
+    const runner = jobManager.getRunnerPid();
+    console.log(
+      chalk.gray(
+        runner
+          ? `  The running runner (pid ${runner}) will pick it up.`
+          : "  Start the queue with: llmpeg jobs run --detach",
+      ),
+    );
+  });
+
+jobs
+  .command("list")
+  .description("List queued, running and finished jobs")
+  .option(
+    "-s, --status <status>",
+    "Only show jobs in this state (queued, running, done, failed, cancelled)",
+  )
+  .action((options) => {
+    const list = jobManager
+      .list()
+      .filter((job) => !options.status || job.status === options.status);
+    const runner = jobManager.getRunnerPid();
+
+    if (list.length === 0) {
+      console.log(chalk.yellow("\nNo jobs found"));
+    } else {
+      console.log(chalk.cyan("\n🗂️  Jobs\n"));
+      list.forEach((job) => {
+        const date = new Date(job.createdAt).toLocaleString();
+        const attempts = job.attempts > 1 ? ` · ${job.attempts} attempts` : "";
+        console.log(`${formatJobStatus(job.status)} ${chalk.bold(job.id)}`);
+        console.log(`   ${chalk.green(job.command)}`);
+        console.log(`   ${chalk.gray(date)}${attempts}`);
+        if (job.status === "failed" && job.error) {
+          console.log(`   ${chalk.red(job.error)}`);
+        }
+        console.log();
+      });
+    }
+
+    console.log(
+      chalk.gray(
+        runner ? `Runner: running (pid ${runner})` : "Runner: not running",
+      ),
+    );
+  });
+
+jobs
+  .command("run")
+  .description("Run queued jobs until the queue is empty")
+  .option(
+    "-j, --concurrency <n>",
+    "Jobs to run at the same time (default from maxParallelJobs)",
+  )
+  .option("-d, --detach", "Run in the background, independent of this terminal")
+  .action(async (options) => {
+    const concurrency =
+      options.concurrency !== undefined
+        ? Number.parseInt(options.concurrency, 10)
+        : configManager.getMaxParallelJobs();
+    if (Number.isNaN(concurrency) || concurrency < 1) {
+      console.error(chalk.red(`Invalid concurrency: ${options.concurrency}`));
+      process.exit(1);
+    }
+
+    if (options.detach) {
+      // The background runner can't report that the lock is taken
+      const runner = jobManager.getRunnerPid();
+      if (runner) {
+        console.error(
+          chalk.yellow(`Jobs are already being run by process ${runner}`),
+        );
+        process.exit(1);
+      }
+      const child = spawn(
+        process.execPath,
+        [process.argv[1], "jobs", "run", "--concurrency", String(concurrency)],
+        { detached: true, stdio: "ignore" },
       );
+      child.unref();
       console.log(
-        "  Grok:",
-        config.grok?.apiKey ? chalk.green("✓ Set") : chalk.red("✗ Not set"),
+        chalk.green(`✓ Runner started in the background (pid ${child.pid})`),
       );
-
-      console.log(chalk.bold("\nDefaults:"));
       console.log(
-        "  Default Provider:",
-        chalk.yellow(config.defaultProvider || "openai"),
+        chalk.gray("  Follow a job with: llmpeg jobs logs <id> --follow"),
       );
+      return;
+    }
 
-      if (config.openai?.defaultModel) {
-        console.log(
-          "  OpenAI Model:",
-          chalk.yellow(config.openai.defaultModel),
-        );
-      }
-      if (config.claude?.defaultModel) {
-        console.log(
-          "  Claude Model:",
-          chalk.yellow(config.claude.defaultModel),
-        );
-      }
-      if (config.gemini?.defaultModel) {
-        console.log(
-          "  Gemini Model:",
-          chalk.yellow(config.gemini.defaultModel),
-        );
-      }
-      if (config.grok?.defaultModel) {
-        console.log("  Grok Model:", chalk.yellow(config.grok.defaultModel));
-      }
-
-      console.log(chalk.gray("\nConfiguration Priority:"));
-      console.log(chalk.gray("1. CLI flags (highest)"));
-      console.log(chalk.gray("2. Environment variables"));
-      console.log(chalk.gray("3. ~/.llmpeg/config.json"));
-      console.log(chalk.gray("4. .env files (lowest)"));
+    const controller = abortOnInterrupt();
+    try {
+      await jobManager.run({
+        concurrency,
+        signal: controller.signal,
+        onResume: (job) => {
+          console.log(
+            chalk.yellow(`↺ ${job.id} was interrupted, queued again`),
+          );
+        },
+        onStart: (job) => {
+          console.log(
+            `${chalk.cyan("▶")} ${chalk.bold(job.id)} ${chalk.gray(job.command)}`,
+          );
+        },
+        onFinish: (job) => {
+          const details =
+            job.status === "failed" && job.error ? `: ${job.error}` : "";
+          console.log(
+            `${formatJobStatus(job.status)} ${chalk.bold(job.id)}${details}`,
+          );
+          recordJobInHistory(job);
+        },
+      });
+    } catch (error) {
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
+    }
 
-      console.log(chalk.bold("\nSettings:"));
+    if (controller.signal.aborted) {
       console.log(
-        "  Auto-copy:",
-        config.autoCopy ? chalk.green("✓ Enabled") : chalk.gray("✗ Disabled"),
+        chalk.yellow("\nStopped. Interrupted jobs will run again next time."),
       );
-      return;
+      process.exit(130);
     }
+    console.log(chalk.green("\n✓ Queue is empty"));
+  });
 
-    let updated = false;
+jobs
+  .command("cancel")
+  .description("Cancel a queued or running job")
+  .argument("<id>", "Job ID (or a unique prefix)")
+  .action((id: string) => {
+    try {
+      const job = jobManager.cancel(id);
+      console.log(chalk.green(`✓ Cancelled job ${job.id}`));
+    } catch (error) {
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
+    }
+  });
 
-    if (options.openai) {
-      configManager.setApiKey("openai", options.openai);
-      updated = true;
+jobs
+  .command("retry")
+  .description("Queue a failed or cancelled job again")
+  .argument("<id>", "Job ID (or a unique prefix)")
+  .action((id: string) => {
+    try {
+      const job = jobManager.retry(id);
+      console.log(chalk.green(`✓ Job ${job.id} queued again`));
+    } catch (error) {
+      console.error(chalk.red("Error:"), (error as Error).message);
+      process.exit(1);
     }
-    if (options.claude) {
-      configManager.setApiKey("claude", options.claude);
-      updated = true;
+  });
+
+jobs
+  .command("logs")
+  .description("Show the ffmpeg output of a job")
+  .argument("<id>", "Job ID (or a unique prefix)")
+  .option("-f, --follow", "Keep printing output until the job finishes")
+  .action(async (id: string, options) => {
+    const job = jobManager.get(id);
+    if (!job) {
+      console.error(chalk.red(`Job "${id}" not found`));
+      process.exit(1);
     }
-    if (options.gemini) {
-      configManager.setApiKey("gemini", options.gemini);
-      updated = true;
+
+    const logPath = jobManager.getLogPath(job.id);
+    let printed = 0;
+    const printNewOutput = () => {
+      if (!existsSync(logPath)) return;
+      const log = readFileSync(logPath);
+      process.stdout.write(log.subarray(printed));
+      printed = log.length;
+    };
+
+    printNewOutput();
+    if (!options.follow) {
+      if (printed === 0) {
+        console.log(chalk.gray(`No output yet, the job is ${job.status}`));
+      }
+      return;
     }
-    if (options.grok) {
-      configManager.setApiKey("grok", options.grok);
-      updated = true;
+
+    const isActive = () => {
+      const status = jobManager.get(job.id)?.status;
+      return status === "queued" || status === "running";
+    };
+    while (isActive()) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      printNewOutput();
     }
-    if (options.defaultProvider) {
-      const validProviders = ["openai", "claude", "gemini", "grok"];
-      if (!validProviders.includes(options.defaultProvider.toLowerCase())) {
-        console.error(
-          chalk.red(`Invalid provider: ${options.defaultProvider}`),
+    printNewOutput();
+  });
+
+function formatJobStatus(status: JobStatus): string {
+  const labels: Record<JobStatus, string> = {
+    queued: chalk.gray("◦ queued"),
+    running: chalk.cyan("▶ running"),
+    done: chalk.green("✓ done"),
+    failed: chalk.red("✗ failed"),
+    cancelled: chalk.yellow("- cancelled"),
+  };
+  return labels[status];
+}
+
+/**
+ * Jobs queued from the history report back to their entry once finished.
+ */
+function recordJobInHistory(job: Job) {
+  if (!job.historyId || job.status === "queued" || job.status === "running") {
+    return;
+  }
+
+  historyManager.reload();
+  historyManager.recordExecution(job.historyId, {
+    status: job.status === "done" ? "success" : job.status,
+    attempts: [
+      {
+        command: job.command,
+        timestamp: job.startedAt ?? Date.now(),
+        exitCode: job.exitCode,
+        error: job.error,
+      },
+    ],
+    finalCommand: job.command,
+  });
+}
+
+program
+  .command("cache")
+  .description("Manage cached model responses")
+  .argument("<action>", "stats, clear or prune")
+  .action(async (action: string) => {
+    switch (action) {
+      case "stats": {
+        const stats = responseCache.getStats();
+        console.log(chalk.cyan("\n🗄️  Response Cache\n"));
+        console.log(chalk.gray("Location: ~/.llmpeg/cache\n"));
+        console.log(`Entries: ${chalk.bold(stats.entries)}`);
+        console.log(`Size: ${chalk.bold(formatBytes(stats.totalSize))}`);
+        console.log(`Hits: ${chalk.bold(stats.hits)}`);
+        console.log(`Expired: ${chalk.bold(stats.expired)}`);
+        if (stats.oldest && stats.newest) {
+          console.log(
+            `Oldest: ${chalk.bold(new Date(stats.oldest).toLocaleString())}`,
+          );
+          console.log(
+            `Newest: ${chalk.bold(new Date(stats.newest).toLocaleString())}`,
+          );
+        }
+        console.log(
+          chalk.gray(
+            `\nLimits: ${configManager.getCacheTtl() || "∞"} days, ${configManager.getCacheMaxSize()} MB`,
+          ),
         );
-        console.error(
-          chalk.gray(`Valid providers: ${validProviders.join(", ")}`),
+        break;
+      }
+      case "clear": {
+        const removed = responseCache.clear();
+        console.log(chalk.green(`✓ Removed ${removed} cached responses`));
+        break;
+      }
+      case "prune": {
+        const { removed, freedBytes } = responseCache.prune();
+        console.log(
+          chalk.green(
+            `✓ Pruned ${removed} cached responses (${formatBytes(freedBytes)} freed)`,
+          ),
         );
-        process.exit(1);
+        break;
       }
-      configManager.setDefaultProvider(options.defaultProvider.toLowerCase());
-      updated = true;
-    }
-    if (options.defaultModel) {
-      const currentProvider = configManager.getDefaultProvider();
-      configManager.setDefaultModel(currentProvider, options.defaultModel);
-      console.log(
-        chalk.gray(
-          `Set default model for ${currentProvider}: ${options.defaultModel}`,
-        ),
-      );
-      updated = true;
-    }
-    if (options.autoCopy !== undefined) {
-      const value = options.autoCopy.toLowerCase() === "true";
-      configManager.setAutoCopy(value);
-      console.log(chalk.gray(`Auto-copy ${value ? "enabled" : "disabled"}`));
-      updated = true;
+      default:
+        console.error(chalk.red(`Unknown cache action: ${action}`));
+        console.error(chalk.gray("Valid actions: stats, clear, prune"));
+        process.exit(1);
     }
+  });
 
-    if (updated) {
-      await configManager.save();
-      console.log(
-        chalk.green("✓ Configuration saved to ~/.llmpeg/config.json"),
-      );
-    } else {
-      console.log(chalk.yellow("No configuration changes made."));
-      console.log(chalk.gray("Use --help to see available options."));
-    }
+/**
+ * List the system prompt source and house rules, either the top-level ones
+ * or those of a profile.
+ */
+function printPromptSettings(profile?: string, indent = "  ") {
+  console.log(
+    `${indent}System prompt:`,
+    configManager.getSystemPrompt(profile)
+      ? chalk.yellow("custom")
+      : chalk.gray(profile ? "inherited" : "built-in"),
+  );
+
+  const rules = configManager.getRules(profile);
+  if (rules.length === 0) {
+    console.log(`${indent}Rules:`, chalk.gray("none"));
+    return;
+  }
+  console.log(`${indent}Rules:`);
+  rules.forEach((rule, index) => {
+    console.log(`${indent}  ${chalk.bold(`${index + 1}.`)} ${rule}`);
   });
+}
 
-program
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const history = program
   .command("history")
   .description("Browse and manage command history")
   .option("-l, --list", "List recent commands")
@@ -367,6 +2990,8 @@ program
   .option("--clear", "Clear all history")
   .option("--export <format>", "Export history (json/csv)")
   .option("-i, --interactive", "Interactive history browser (default)")
+  .option("--json", "Print entries or statistics as JSON (default when piped)")
+  .option("--no-json", "Print human-readable output even when piped")
   .action(async (options) => {
     // If no specific option provided, default to interactive mode
     if (
@@ -378,7 +3003,20 @@ program
       !options.clear &&
       !options.export
     ) {
-      options.interactive = true;
+      // There is nothing to browse in JSON, so list the recent commands
+      if (jsonOutput) {
+        options.list = true;
+      } else {
+        options.interactive = true;
+      }
+    }
+
+    if (options.clear && jsonOutput) {
+      printJsonError(
+        "CONFIRMATION_REQUIRED",
+        "Clearing the history needs confirmation, run without --json",
+      );
+      process.exit(1);
     }
 
     if (options.clear) {
@@ -400,6 +3038,10 @@ program
 
     if (options.stats) {
       const stats = historyManager.getStats();
+      if (jsonOutput) {
+        printJson(stats);
+        return;
+      }
       console.log(chalk.cyan("\n📊 History Statistics\n"));
       console.log(`Total commands: ${chalk.bold(stats.totalCommands)}`);
       console.log(`Favorites: ${chalk.bold(stats.favoriteCount)}`);
@@ -416,6 +3058,13 @@ program
     if (options.export) {
       const format = options.export.toLowerCase() as "json" | "csv";
       if (format !== "json" && format !== "csv") {
+        if (jsonOutput) {
+          printJsonError(
+            "INVALID_OPTION",
+            "Invalid format. Use 'json' or 'csv'",
+          );
+          process.exit(1);
+        }
         console.error(chalk.red("Invalid format. Use 'json' or 'csv'"));
         return;
       }
@@ -423,7 +3072,11 @@ program
       const data = historyManager.exportHistory(format);
       const filename = `llmpeg-history-${new Date().toISOString().split("T")[0]}.${format}`;
       writeFileSync(filename, data);
-      console.log(chalk.green(`✓ History exported to ${filename}`));
+      if (jsonOutput) {
+        printJson({ file: filename });
+      } else {
+        console.log(chalk.green(`✓ History exported to ${filename}`));
+      }
       return;
     }
 
@@ -448,6 +3101,11 @@ program
       return;
     }
 
+    if (jsonOutput) {
+      printJson({ entries });
+      return;
+    }
+
     // Display results
     if (entries.length === 0) {
       console.log(chalk.yellow("\nNo commands found"));
@@ -466,12 +3124,124 @@ program
       );
       console.log(`   ${chalk.green(entry.command)}`);
       console.log(
-        `   ${chalk.gray(date)} · ${entry.provider} · Used ${entry.executionCount}x`,
+        `   ${chalk.gray(date)} · ${entry.provider} · Used ${entry.executionCount}x · ${chalk.gray(entry.id.slice(0, 8))}${entry.parentId ? chalk.gray(` ↳ ${entry.parentId.slice(0, 8)}`) : ""}`,
       );
       console.log();
     });
   });
 
+history
+  .command("export-script")
+  .description("Write history entries to a bash or PowerShell script")
+  .argument("<ids...>", "History entry IDs (or unique prefixes)")
+  .option(
+    "-o, --output <file>",
+    "Script file to write (.sh or .ps1), printed when omitted",
+  )
+  .option("--shell <shell>", `Script language (${SCRIPT_SHELLS.join(", ")})`)
+  .action((ids: string[], options) => {
+    if (options.shell && !SCRIPT_SHELLS.includes(options.shell)) {
+      console.error(
+        chalk.red(
+          `Invalid shell: ${options.shell}. Use one of: ${SCRIPT_SHELLS.join(", ")}`,
+        ),
+      );
+      process.exit(1);
+    }
+
+    const entries = ids.map((id) => {
+      const entry = historyManager.get(id);
+      if (!entry?.command) {
+        console.error(
+          chalk.red(
+            entry
+              ? `History entry "${id}" has no command`
+              : `History entry "${id}" not found`,
+          ),
+        );
+        process.exit(1);
+      }
+      return entry;
+    });
+
+    // One entry is described at the top, several each get their own comment
+    const commands: ScriptCommand[] = entries.map((entry) => ({
+      command: getWorkingCommand(entry),
+      recipe: entry.details?.recipe,
+      comment:
+        entries.length > 1
+          ? describeForScript(entry.prompt, entry.details?.explanation)
+          : undefined,
+    }));
+    const description =
+      entries.length === 1
+        ? describeForScript(entries[0].prompt, entries[0].details?.explanation)
+        : `${entries.length} commands exported from the llmpeg history`;
+
+    if (options.output) {
+      writeScript(options.output, commands, {
+        description,
+        shell: options.shell,
+      });
+    } else {
+      try {
+        process.stdout.write(
+          buildScript(commands, {
+            shell: options.shell || "bash",
+            description,
+          }),
+        );
+      } catch (error) {
+        console.error(chalk.red("Error:"), (error as Error).message);
+        process.exit(1);
+      }
+    }
+  });
+
+/**
+ * The command to hand on for a history entry: a repaired command that
+ * worked beats the original.
+ */
+function getWorkingCommand(entry: HistoryEntry): string {
+  return entry.execution?.status === "success"
+    ? entry.execution.finalCommand
+    : entry.command;
+}
+
+function describeForScript(prompt: string, explanation?: string): string {
+  return explanation
+    ? `Prompt: ${prompt}\n${explanation}`
+    : `Prompt: ${prompt}`;
+}
+
+/**
+ * Write commands to a script, picking the shell from the file extension
+ * unless one is given. Bash scripts are made executable.
+ */
+function writeScript(
+  path: string,
+  commands: ScriptCommand[],
+  options: { description?: string; shell?: ScriptShell },
+) {
+  const shell = options.shell || getScriptShell(path);
+  try {
+    writeFileSync(
+      path,
+      buildScript(commands, { shell, description: options.description }),
+    );
+    if (shell === "bash") {
+      chmodSync(path, 0o755);
+    }
+    logStatus(chalk.green(`\n✓ ${shell} script written to ${path}`));
+  } catch (error) {
+    console.error(
+      chalk.red("\n✗ Failed to write script:"),
+      (error as Error).message,
+    );
+    process.exit(1);
+  }
+}
+
 async function interactiveHistoryBrowser() {
   while (true) {
     const { action } = await inquirer.prompt([
@@ -603,8 +3373,22 @@ async function interactiveHistoryBrowser() {
     // Show command details and actions
     const entry = entries.find((e) => e.id === selectedId)!;
     console.log(chalk.cyan("\nCommand Details:\n"));
-    console.log(`${chalk.bold("Prompt:")} ${entry.prompt}`);
+    console.log(`${chalk.bold("ID:")} ${entry.id}`);
+    if (entry.conversation) {
+      console.log(chalk.bold("Conversation:"));
+      entry.conversation.forEach((turn, index) => {
+        console.log(`  ${chalk.cyan(`${index + 1}.`)} ${turn.prompt}`);
+        console.log(`     ${chalk.gray(turn.command)}`);
+      });
+    } else {
+      console.log(`${chalk.bold("Prompt:")} ${entry.prompt}`);
+    }
     console.log(`${chalk.bold("Command:")} ${chalk.green(entry.command)}`);
+    if (entry.originalCommand) {
+      console.log(
+        `${chalk.bold("Generated:")} ${chalk.gray(entry.originalCommand)} ${chalk.gray("(edited before running)")}`,
+      );
+    }
     console.log(
       `${chalk.bold("Provider:")} ${entry.provider}${entry.model ? ` (${entry.model})` : ""}`,
     );
@@ -619,6 +3403,25 @@ async function interactiveHistoryBrowser() {
     if (entry.category) {
       console.log(`${chalk.bold("Category:")} ${entry.category}`);
     }
+    if (entry.parentId) {
+      console.log(
+        `${chalk.bold("Refined from:")} ${entry.parentId.slice(0, 8)}`,
+      );
+    }
+    if (entry.details?.explanation) {
+      console.log(`${chalk.bold("Explanation:")} ${entry.details.explanation}`);
+    }
+    if (entry.details?.warnings.length) {
+      console.log(
+        `${chalk.bold("Warnings:")} ${chalk.yellow(entry.details.warnings.join("; "))}`,
+      );
+    }
+    if (entry.validation) {
+      const issues = entry.validation.issues.map((issue) => issue.message);
+      console.log(
+        `${chalk.bold("Validation:")} ${formatValidationBadge(entry.validation)}${issues.length > 0 ? ` ${chalk.gray(issues.join("; "))}` : ""}`,
+      );
+    }
 
     const { commandAction } = await inquirer.prompt([
       {
@@ -628,6 +3431,11 @@ async function interactiveHistoryBrowser() {
         choices: [
           { name: "Copy to clipboard", value: "copy" },
           { name: "Execute command", value: "execute" },
+          { name: "Explain this command", value: "explain" },
+          { name: "Refine this command", value: "refine" },
+          ...(entry.parentId || historyManager.getChildren(entry.id).length
+            ? [{ name: "Show lineage", value: "lineage" }]
+            : []),
           { name: "Use as new prompt", value: "reuse" },
           {
             name: entry.isFavorite
@@ -658,21 +3466,71 @@ async function interactiveHistoryBrowser() {
         },
       ]);
     } else if (commandAction === "execute") {
-      console.log(chalk.yellow("\nExecuting command..."));
-      const { spawn } = await import("child_process");
-      const proc = spawn(
-        entry.command.split(" ")[0],
-        entry.command.split(" ").slice(1),
+      const target = await chooseCommandToRun(entry);
+      if (
+        target &&
+        (await confirmExecution(target.command, target.details?.recipe))
+      ) {
+        await executeWithRepair(target, configManager.getRepairAttempts());
+      }
+
+      await inquirer.prompt([
         {
-          stdio: "inherit",
-          shell: true,
+          type: "input",
+          name: "continue",
+          message: "Press Enter to continue...",
         },
-      );
+      ]);
+    } else if (commandAction === "explain") {
+      const spinner = ora("Analyzing FFmpeg command...").start();
+      try {
+        const explanation = await explainFfmpegCommand(entry.command, {
+          model: entry.provider,
+          provider: entry.model,
+          onFallback: reportFallback(spinner),
+          onCacheError: reportCacheError(spinner),
+        });
+        spinner.succeed("Command analyzed successfully!");
+        printExplanation(entry.command, explanation);
+      } catch (error) {
+        spinner.fail("Failed to explain command");
+        console.error(chalk.red("Error:"), (error as Error).message);
+      }
 
-      await new Promise((resolve) => {
-        proc.on("close", resolve);
-        proc.on("error", resolve);
+      await inquirer.prompt([
+        {
+          type: "input",
+          name: "continue",
+          message: "Press Enter to continue...",
+        },
+      ]);
+    } else if (commandAction === "refine") {
+      const { instruction } = await inquirer.prompt([
+        {
+          type: "input",
+          name: "instruction",
+          message: "What should change?",
+          validate: (input: string) =>
+            input.trim().length > 0 || "Instruction is required",
+        },
+      ]);
+      const refined = await refineHistoryEntry(entry, instruction.trim(), {
+        model: entry.provider,
+        provider: entry.model,
       });
+      if (refined) {
+        printLineage(refined);
+      }
+
+      await inquirer.prompt([
+        {
+          type: "input",
+          name: "continue",
+          message: "Press Enter to continue...",
+        },
+      ]);
+    } else if (commandAction === "lineage") {
+      printLineage(entry);
 
       await inquirer.prompt([
         {
@@ -784,6 +3642,8 @@ program
   .option("-u, --use <id>", "Use a specific preset by ID")
   .option("--export", "Export all presets")
   .option("--create", "Create a custom preset")
+  .option("--json", "Print listed presets as JSON (default when piped)")
+  .option("--no-json", "Print human-readable output even when piped")
   .action(async (options) => {
     if (options.export) {
       const data = presetManager.exportPresets();
@@ -803,17 +3663,26 @@ program
       return;
     }
 
-    if (options.list) {
+    // There is nothing to browse in JSON, so list them
+    if (options.list || (jsonOutput && !options.search)) {
       const presets = options.category
         ? presetManager.getPresetsByCategory(options.category)
         : presetManager.getAllPresets();
 
-      displayPresetList(presets);
+      if (jsonOutput) {
+        printJson({ presets });
+      } else {
+        displayPresetList(presets);
+      }
       return;
     }
 
     if (options.search) {
       const presets = presetManager.searchPresets(options.search);
+      if (jsonOutput) {
+        printJson({ presets });
+        return;
+      }
       if (presets.length === 0) {
         console.log(chalk.yellow("\nNo presets found"));
         return;
@@ -920,23 +3789,36 @@ async function usePreset(presetId: string) {
   const spinner = ora("Generating FFmpeg command...").start();
 
   try {
-    const command = await generateFfmpegCommand(finalPrompt, {
+    const result = await generateFfmpegCommand(finalPrompt, {
       model,
       provider,
+      recipe: preset.recipe,
+      onFallback: reportFallback(spinner),
+      onCacheError: reportCacheError(spinner),
     });
 
     spinner.succeed("Command generated successfully!");
+    const validation = configManager.getValidate()
+      ? await validateWithSpinner(result, spinner)
+      : undefined;
 
-    console.log(`\n${chalk.cyan("Prompt:")} ${finalPrompt}`);
-    console.log(`${chalk.green("Command:")} ${chalk.bold(command)}`);
+    printGenerationResult(finalPrompt, result, false, validation);
+    const {
+      command,
+      provider: answeredBy,
+      model: answeredModel,
+      ...details
+    } = result;
 
     // Add to history with preset tag
     historyManager.add({
       prompt: finalPrompt,
       command,
-      provider: model,
-      model: provider,
+      provider: answeredBy,
+      model: answeredModel,
       category: preset.category,
+      details,
+      validation,
     });
 
     // Increment usage count for custom presets
@@ -1468,7 +4350,21 @@ async function manageCustomPresets() {
   ]);
 }
 
-console.log(`
+program.hook("preAction", (_program, command) => {
+  // Parse commands with the options of the local ffmpeg, when detected before
+  getCachedCapabilities();
+
+  const supportsJson = command.options.some(
+    (option) => option.attributeName() === "json",
+  );
+  jsonOutput = supportsJson && isJsonOutput(command.opts().json);
+  if (jsonOutput) {
+    return;
+  }
+
+  // Keep piped output (e.g. an exported script) free of the banner
+  if (process.stdout.isTTY) {
+    console.log(`
 ${vice(
   figlet.textSync("LLMPEG", {
     font: "ANSI Shadow",
@@ -1480,13 +4376,19 @@ ${vice(
 Author: Ali Torki
 Github: https://github.com/ali-master/llmpeg
 `);
+  }
 
-// Check if any API key is configured
-if (!configManager.hasAnyApiKey()) {
-  console.log(chalk.yellow("⚠️  No API keys configured. Please run:"));
-  console.log(chalk.gray("  llmpeg config --openai YOUR_KEY"));
-  console.log(chalk.gray("  or set environment variable OPENAI_API_KEY"));
-  console.log(chalk.gray('\nRun "llmpeg config --help" for more options.'));
-}
+  // Check if any API key is configured. This goes to stderr, so it doesn't
+  // end up in piped output
+  if (!configManager.hasAnyApiKey()) {
+    console.error(chalk.yellow("⚠️  No API keys configured. Please run:"));
+    console.error(chalk.gray("  llmpeg config --openai YOUR_KEY"));
+    console.error(chalk.gray("  or set environment variable OPENAI_API_KEY"));
+    console.error(
+      chalk.gray("  or use a local server: llmpeg config --local-url <url>"),
+    );
+    console.error(chalk.gray('\nRun "llmpeg config --help" for more options.'));
+  }
+});
 
 program.parse();
@@ -2,26 +2,47 @@ import { writeFileSync, readFileSync, mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
 import { config as loadDotenv } from "dotenv";
+import type { ExecutionPolicy } from "./safety.js";
+import { PROVIDERS, isProviderId, getProvider } from "./providers.js";
+import type { ProviderId, ProviderConfig } from "./providers.js";
 
-interface Config {
-  openai?: {
-    apiKey?: string;
-    defaultModel?: string;
-  };
-  claude?: {
-    apiKey?: string;
-    defaultModel?: string;
-  };
-  gemini?: {
-    apiKey?: string;
-    defaultModel?: string;
-  };
-  grok?: {
-    apiKey?: string;
-    defaultModel?: string;
-  };
-  defaultProvider?: "openai" | "claude" | "gemini" | "grok";
+type ProviderConfigs = { [id in ProviderId]?: ProviderConfig };
+
+// A named set of prompt customizations, selected with --profile
+export interface PromptProfile {
+  // Appended to the house rules
+  rules?: string[];
+  // Replaces the system prompt
+  systemPrompt?: string;
+}
+
+interface Config extends ProviderConfigs {
+  defaultProvider?: ProviderId;
+  // Tried in order when the default provider fails
+  fallbackProviders?: ProviderId[];
+  // House rules appended to the system prompt
+  rules?: string[];
+  // Replaces the built-in system prompt
+  systemPrompt?: string;
+  profiles?: Record<string, PromptProfile>;
   autoCopy?: boolean;
+  executionPolicy?: ExecutionPolicy;
+  repairAttempts?: number;
+  // Seconds to wait for a provider before giving up on it (0 disables)
+  requestTimeout?: number;
+  // Retries on rate limits and server errors, with exponential backoff
+  maxRetries?: number;
+  // Response cache in ~/.llmpeg/cache
+  cache?: boolean;
+  // Days before a cached response expires (0 keeps them forever)
+  cacheTtl?: number;
+  // Megabytes the cache may use before the least recently used entries go
+  cacheMaxSize?: number;
+  stream?: boolean;
+  // Check generated commands against the local ffmpeg
+  validate?: boolean;
+  // Jobs `llmpeg jobs run` processes at the same time
+  maxParallelJobs?: number;
 }
 
 class ConfigManager {
@@ -60,33 +81,31 @@ class ConfigManager {
   }
 
   private mergeEnvironmentVariables() {
-    if (process.env.OPENAI_API_KEY) {
-      this.config.openai = {
-        ...this.config.openai,
-        apiKey: process.env.OPENAI_API_KEY,
-      };
-    }
-    if (process.env.ANTHROPIC_API_KEY) {
-      this.config.claude = {
-        ...this.config.claude,
-        apiKey: process.env.ANTHROPIC_API_KEY,
-      };
-    }
-    if (process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-      this.config.gemini = {
-        ...this.config.gemini,
-        apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
-      };
-    }
-    if (process.env.XAI_API_KEY) {
-      this.config.grok = {
-        ...this.config.grok,
-        apiKey: process.env.XAI_API_KEY,
-      };
+    for (const provider of PROVIDERS) {
+      if (provider.envVar && process.env[provider.envVar]) {
+        this.config[provider.id] = {
+          ...this.config[provider.id],
+          apiKey: process.env[provider.envVar],
+        };
+      }
+      for (const setting of provider.settings || []) {
+        if (setting.envVar && process.env[setting.envVar]) {
+          this.config[provider.id] = {
+            ...this.config[provider.id],
+            [setting.name]: process.env[setting.envVar],
+          };
+        }
+      }
     }
     if (process.env.LLMPEG_DEFAULT_PROVIDER) {
       this.config.defaultProvider = process.env.LLMPEG_DEFAULT_PROVIDER as any;
     }
+    if (process.env.LLMPEG_FALLBACK_PROVIDERS) {
+      this.config.fallbackProviders =
+        process.env.LLMPEG_FALLBACK_PROVIDERS.split(",")
+          .map((provider) => provider.trim().toLowerCase())
+          .filter(isProviderId);
+    }
   }
 
   async save() {
@@ -105,33 +124,35 @@ class ConfigManager {
   }
 
   getApiKey(provider: string): string | undefined {
-    switch (provider.toLowerCase()) {
-      case "openai":
-        return this.config.openai?.apiKey;
-      case "claude":
-        return this.config.claude?.apiKey;
-      case "gemini":
-        return this.config.gemini?.apiKey;
-      case "grok":
-        return this.config.grok?.apiKey;
-      default:
-        return undefined;
-    }
+    const definition = getProvider(provider);
+    return definition ? this.config[definition.id]?.apiKey : undefined;
   }
 
   getDefaultModel(provider: string): string | undefined {
-    switch (provider.toLowerCase()) {
-      case "openai":
-        return this.config.openai?.defaultModel || "gpt-4o-mini";
-      case "claude":
-        return this.config.claude?.defaultModel || "claude-3-haiku-20240307";
-      case "gemini":
-        return this.config.gemini?.defaultModel || "gemini-1.5-flash";
-      case "grok":
-        return this.config.grok?.defaultModel || "grok-beta";
-      default:
-        return undefined;
+    const definition = getProvider(provider);
+    if (!definition) {
+      return undefined;
+    }
+    return this.config[definition.id]?.defaultModel || definition.defaultModel;
+  }
+
+  /**
+   * Provider settings with defaults from the registry applied.
+   */
+  getProviderConfig(provider: string): ProviderConfig {
+    const definition = getProvider(provider);
+    if (!definition) {
+      return {};
+    }
+
+    const config: ProviderConfig = { ...this.config[definition.id] };
+    for (const setting of definition.settings || []) {
+      if (config[setting.name] === undefined && setting.default) {
+        config[setting.name] = setting.default;
+      }
     }
+    config.defaultModel = config.defaultModel || definition.defaultModel;
+    return config;
   }
 
   getDefaultProvider(): string {
@@ -139,52 +160,135 @@ class ConfigManager {
   }
 
   setApiKey(provider: string, apiKey: string) {
-    switch (provider.toLowerCase()) {
-      case "openai":
-        this.config.openai = { ...this.config.openai, apiKey };
-        break;
-      case "claude":
-        this.config.claude = { ...this.config.claude, apiKey };
-        break;
-      case "gemini":
-        this.config.gemini = { ...this.config.gemini, apiKey };
-        break;
-      case "grok":
-        this.config.grok = { ...this.config.grok, apiKey };
-        break;
-    }
+    this.setProviderSetting(provider, "apiKey", apiKey);
   }
 
   setDefaultModel(provider: string, model: string) {
-    switch (provider.toLowerCase()) {
-      case "openai":
-        this.config.openai = { ...this.config.openai, defaultModel: model };
-        break;
-      case "claude":
-        this.config.claude = { ...this.config.claude, defaultModel: model };
-        break;
-      case "gemini":
-        this.config.gemini = { ...this.config.gemini, defaultModel: model };
-        break;
-      case "grok":
-        this.config.grok = { ...this.config.grok, defaultModel: model };
-        break;
-    }
-  }
-
-  setDefaultProvider(provider: "openai" | "claude" | "gemini" | "grok") {
+    this.setProviderSetting(provider, "defaultModel", model);
+  }
+
+  setProviderSetting(
+    provider: string,
+    name: keyof ProviderConfig,
+    value: string,
+  ) {
+    const definition = getProvider(provider);
+    if (definition) {
+      this.config[definition.id] = {
+        ...this.config[definition.id],
+        [name]: value,
+      };
+    }
+  }
+
+  setDefaultProvider(provider: ProviderId) {
     this.config.defaultProvider = provider;
   }
 
-  hasAnyApiKey(): boolean {
-    return !!(
-      this.config.openai?.apiKey ||
-      this.config.claude?.apiKey ||
-      this.config.gemini?.apiKey ||
-      this.config.grok?.apiKey
+  getFallbackProviders(): ProviderId[] {
+    return this.config.fallbackProviders || [];
+  }
+
+  setFallbackProviders(providers: ProviderId[]) {
+    this.config.fallbackProviders = providers;
+  }
+
+  /**
+   * Prompt settings live either at the top level or inside a named profile;
+   * the profile is created when it doesn't exist yet.
+   */
+  private getPromptTarget(profile?: string): PromptProfile {
+    if (!profile) {
+      return this.config;
+    }
+    this.config.profiles = this.config.profiles || {};
+    this.config.profiles[profile] = this.config.profiles[profile] || {};
+    return this.config.profiles[profile];
+  }
+
+  getRules(profile?: string): string[] {
+    return (
+      (profile ? this.getProfile(profile)?.rules : this.config.rules) || []
+    );
+  }
+
+  addRule(rule: string, profile?: string) {
+    const target = this.getPromptTarget(profile);
+    target.rules = [...(target.rules || []), rule];
+  }
+
+  removeRule(index: number, profile?: string): string | undefined {
+    const target = this.getPromptTarget(profile);
+    if (index < 0) {
+      return undefined;
+    }
+    const [removed] = (target.rules || []).splice(index, 1);
+    return removed;
+  }
+
+  clearRules(profile?: string) {
+    delete this.getPromptTarget(profile).rules;
+  }
+
+  getSystemPrompt(profile?: string): string | undefined {
+    return profile
+      ? this.getProfile(profile)?.systemPrompt
+      : this.config.systemPrompt;
+  }
+
+  setSystemPrompt(prompt: string | undefined, profile?: string) {
+    const target = this.getPromptTarget(profile);
+    if (prompt) {
+      target.systemPrompt = prompt;
+    } else {
+      delete target.systemPrompt;
+    }
+  }
+
+  getProfile(name: string): PromptProfile | undefined {
+    return this.config.profiles?.[name];
+  }
+
+  getProfiles(): Record<string, PromptProfile> {
+    return this.config.profiles || {};
+  }
+
+  deleteProfile(name: string): boolean {
+    if (!this.config.profiles?.[name]) {
+      return false;
+    }
+    delete this.config.profiles[name];
+    return true;
+  }
+
+  requiresApiKey(provider: string): boolean {
+    return getProvider(provider)?.requiresApiKey ?? true;
+  }
+
+  /**
+   * Keyed providers need an API key other than the placeholder `llmpeg init`
+   * writes. Keyless ones (local servers) count as configured once they have
+   * a base URL or are the default provider.
+   */
+  isProviderConfigured(provider: string): boolean {
+    const definition = getProvider(provider);
+    if (!definition) {
+      return false;
+    }
+    if (definition.requiresApiKey) {
+      const apiKey = this.config[definition.id]?.apiKey;
+      return !!apiKey && apiKey !== definition.sampleApiKey;
+    }
+    return (
+      !!this.config[definition.id]?.baseURL ||
+      this.config.defaultProvider === definition.id
     );
   }
 
+  hasAnyApiKey(): boolean {
+    return PROVIDERS.some((provider) => this.isProviderConfigured(provider.id));
+  }
+
   getConfig(): Config {
     return { ...this.config };
   }
@@ -196,6 +300,86 @@ class ConfigManager {
   setAutoCopy(value: boolean) {
     this.config.autoCopy = value;
   }
+
+  getExecutionPolicy(): ExecutionPolicy {
+    return this.config.executionPolicy || "confirm";
+  }
+
+  setExecutionPolicy(policy: ExecutionPolicy) {
+    this.config.executionPolicy = policy;
+  }
+
+  getRepairAttempts(): number {
+    return this.config.repairAttempts ?? 2;
+  }
+
+  setRepairAttempts(attempts: number) {
+    this.config.repairAttempts = attempts;
+  }
+
+  getRequestTimeout(): number {
+    return this.config.requestTimeout ?? 60;
+  }
+
+  setRequestTimeout(seconds: number) {
+    this.config.requestTimeout = seconds;
+  }
+
+  getMaxRetries(): number {
+    return this.config.maxRetries ?? 2;
+  }
+
+  setMaxRetries(retries: number) {
+    this.config.maxRetries = retries;
+  }
+
+  getCache(): boolean {
+    return this.config.cache ?? true;
+  }
+
+  setCache(value: boolean) {
+    this.config.cache = value;
+  }
+
+  getCacheTtl(): number {
+    return this.config.cacheTtl ?? 30;
+  }
+
+  setCacheTtl(days: number) {
+    this.config.cacheTtl = days;
+  }
+
+  getCacheMaxSize(): number {
+    return this.config.cacheMaxSize ?? 50;
+  }
+
+  setCacheMaxSize(megabytes: number) {
+    this.config.cacheMaxSize = megabytes;
+  }
+
+  getStream(): boolean {
+    return this.config.stream || false;
+  }
+
+  setStream(value: boolean) {
+    this.config.stream = value;
+  }
+
+  getMaxParallelJobs(): number {
+    return this.config.maxParallelJobs ?? 1;
+  }
+
+  setMaxParallelJobs(jobs: number) {
+    this.config.maxParallelJobs = jobs;
+  }
+
+  getValidate(): boolean {
+    return this.config.validate ?? true;
+  }
+
+  setValidate(value: boolean) {
+    this.config.validate = value;
+  }
 }
 
 export const configManager = new ConfigManager();
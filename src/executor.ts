@@ -0,0 +1,169 @@
+import { spawn } from "child_process";
+import { basename } from "path";
+import { parseCommandLine, getCommandFiles } from "./argv.js";
+import { ProgressParser, estimateOutputDuration } from "./progress.js";
+import type { ExecutionProgress } from "./progress.js";
+
+const STDERR_BUFFER_SIZE = 16 * 1024;
+const STDERR_TAIL_LINES = 20;
+
+export class CommandExecutionError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number | null,
+    readonly stderrTail: string,
+  ) {
+    super(message);
+    this.name = "CommandExecutionError";
+  }
+}
+
+export interface ExecuteOptions {
+  // Receives parsed progress updates while ffmpeg runs
+  onProgress?: (progress: ExecutionProgress) => void;
+  // Receives ffmpeg's stderr output (defaults to writing it to process.stderr)
+  onStderr?: (chunk: Buffer) => void;
+  // Receives the command's stdout instead of the terminal
+  onStdout?: (chunk: Buffer) => void;
+  // Keep ffmpeg away from the terminal, e.g. when several commands run at once
+  ignoreStdin?: boolean;
+  // Directory the command runs in (defaults to the current one)
+  cwd?: string;
+  // Receives the process ID once the command has started
+  onSpawn?: (pid: number) => void;
+}
+
+/**
+ * Execute a generated command without going through a shell.
+ * The command line is tokenized into argv and the binary is spawned directly,
+ * so quoted file names work and shell metacharacters are never interpreted.
+ * Stderr is passed through to the terminal and its tail is kept for diagnostics.
+ *
+ * For ffmpeg, progress reporting is handled here: any -stats/-progress flags
+ * from the model are replaced with `-progress pipe:1`, which is parsed and
+ * reported through onProgress.
+ */
+export async function executeCommand(
+  command: string,
+  options: ExecuteOptions = {},
+): Promise<void> {
+  const argv = parseCommandLine(command);
+
+  if (argv.length === 0) {
+    throw new Error("Cannot execute an empty command");
+  }
+
+  const trackProgress = !!options.onProgress && canTrackProgress(argv);
+  const [binary, ...args] = trackProgress ? withProgressFlags(argv) : argv;
+  const duration = trackProgress
+    ? await estimateOutputDuration(argv)
+    : undefined;
+
+  const proc = spawn(binary, args, {
+    stdio: [
+      options.ignoreStdin ? "ignore" : "inherit",
+      trackProgress || options.onStdout ? "pipe" : "inherit",
+      "pipe",
+    ],
+    cwd: options.cwd,
+    shell: false,
+  });
+
+  if (proc.pid !== undefined) {
+    options.onSpawn?.(proc.pid);
+  }
+
+  if (trackProgress && proc.stdout) {
+    const parser = new ProgressParser(duration, options.onProgress!);
+    proc.stdout.on("data", (chunk: Buffer) => parser.push(chunk.toString()));
+  } else if (options.onStdout && proc.stdout) {
+    proc.stdout.on("data", options.onStdout);
+  }
+
+  let stderr = "";
+  proc.stderr!.on("data", (chunk: Buffer) => {
+    if (options.onStderr) {
+      options.onStderr(chunk);
+    } else {
+      process.stderr.write(chunk);
+    }
+    stderr = (stderr + chunk.toString()).slice(-STDERR_BUFFER_SIZE);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    proc.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(
+          new CommandExecutionError(
+            `Command exited with code ${code}`,
+            code,
+            getStderrTail(stderr),
+          ),
+        );
+      }
+    });
+    proc.on("error", (error) => {
+      reject(new Error(`Failed to start ${binary}: ${error.message}`));
+    });
+  });
+}
+
+function isFfmpeg(binary: string): boolean {
+  return (
+    basename(binary)
+      .replace(/\.exe$/i, "")
+      .toLowerCase() === "ffmpeg"
+  );
+}
+
+/**
+ * Progress is read from ffmpeg's stdout, so it can't be used when the
+ * command itself writes media to stdout.
+ */
+function canTrackProgress(argv: string[]): boolean {
+  if (!isFfmpeg(argv[0])) {
+    return false;
+  }
+  const { outputs } = getCommandFiles(argv);
+  return !outputs.some(
+    (output) => output === "-" || output === "pipe:" || output === "pipe:1",
+  );
+}
+
+function withProgressFlags(argv: string[]): string[] {
+  const [binary, ...rest] = argv;
+  const args: string[] = [];
+
+  for (let i = 0; i < rest.length; i++) {
+    if (rest[i] === "-progress") {
+      i++;
+    } else if (rest[i] !== "-stats" && rest[i] !== "-nostats") {
+      args.push(rest[i]);
+    }
+  }
+
+  const hasLogLevel = args.some((arg) => arg === "-v" || arg === "-loglevel");
+
+  return [
+    binary,
+    ...(hasLogLevel ? [] : ["-hide_banner", "-loglevel", "error"]),
+    "-nostats",
+    "-progress",
+    "pipe:1",
+    ...args,
+  ];
+}
+
+/**
+ * Keep the last meaningful lines of ffmpeg's stderr, dropping progress updates.
+ */
+function getStderrTail(stderr: string): string {
+  return stderr
+    .split(/\r?\n|\r/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line && !/^(?:frame|size)=/.test(line.trimStart()))
+    .slice(-STDERR_TAIL_LINES)
+    .join("\n");
+}
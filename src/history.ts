@@ -2,6 +2,21 @@ import { writeFileSync, readFileSync, mkdirSync, existsSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
 import crypto from "crypto";
+import type { ValidationResult } from "./validate.js";
+import type { GenerationDetails, ConversationTurn } from "./index.js";
+
+export interface ExecutionAttempt {
+  command: string;
+  timestamp: number;
+  exitCode?: number | null;
+  error?: string;
+}
+
+export interface ExecutionRecord {
+  status: "success" | "failed" | "cancelled";
+  attempts: ExecutionAttempt[];
+  finalCommand: string;
+}
 
 export interface HistoryEntry {
   id: string;
@@ -14,7 +29,20 @@ export interface HistoryEntry {
   tags: string[];
   isFavorite: boolean;
   category?: string;
+  // Prompt profile the command was generated with
+  profile?: string;
   error?: string;
+  // Structured details returned alongside the command by the model
+  details?: GenerationDetails;
+  // Static checks against the local ffmpeg, run right after generation
+  validation?: ValidationResult;
+  execution?: ExecutionRecord;
+  // Requests of the chat session that led to the command, oldest first
+  conversation?: ConversationTurn[];
+  // Entry the command was refined from with `llmpeg refine`
+  parentId?: string;
+  // What the model generated, when the command was edited before running it
+  originalCommand?: string;
 }
 
 export interface HistoryStats {
@@ -83,18 +111,34 @@ export class HistoryManager {
       HistoryEntry,
       "id" | "timestamp" | "executionCount" | "tags" | "isFavorite"
     >,
-  ): void {
-    // Check if similar command exists
-    const existingIndex = this.history.findIndex(
-      (h) =>
-        h.prompt.toLowerCase() === entry.prompt.toLowerCase() &&
-        h.command === entry.command,
-    );
+  ): HistoryEntry {
+    // Check if similar command exists. Refinements and chat sessions are
+    // nodes of a lineage tree, so they are always kept as entries of their own
+    const hasLineage = (h: Pick<HistoryEntry, "parentId" | "conversation">) =>
+      !!h.parentId || !!h.conversation;
+    const existingIndex = hasLineage(entry)
+      ? -1
+      : this.history.findIndex(
+          (h) =>
+            !hasLineage(h) &&
+            h.prompt.toLowerCase() === entry.prompt.toLowerCase() &&
+            h.command === entry.command,
+        );
+
+    let result: HistoryEntry;
 
     if (existingIndex !== -1) {
       // Update existing entry
-      this.history[existingIndex].executionCount++;
-      this.history[existingIndex].timestamp = Date.now();
+      result = this.history[existingIndex];
+      result.executionCount++;
+      result.timestamp = Date.now();
+      // The local ffmpeg or input files may have changed since last time
+      if (entry.validation) {
+        result.validation = entry.validation;
+      }
+      if (entry.details) {
+        result.details = entry.details;
+      }
     } else {
       // Add new entry
       const newEntry: HistoryEntry = {
@@ -106,9 +150,11 @@ export class HistoryManager {
         isFavorite: false,
       };
       this.history.unshift(newEntry);
+      result = newEntry;
     }
 
     this.save();
+    return result;
   }
 
   private autoGenerateTags(prompt: string): string[] {
@@ -178,6 +224,54 @@ export class HistoryManager {
     return tags;
   }
 
+  /**
+   * Re-read the history file, picking up entries other llmpeg processes
+   * added. Long-running commands call this before changing the history so
+   * they don't write back a stale copy.
+   */
+  reload(): void {
+    this.load();
+  }
+
+  /**
+   * Find an entry by its ID or an unambiguous prefix of it.
+   */
+  get(id: string): HistoryEntry | undefined {
+    const exact = this.history.find((h) => h.id === id);
+    if (exact) {
+      return exact;
+    }
+    const matches = this.history.filter((h) => h.id.startsWith(id));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  /**
+   * Entries refined from the given one, oldest first.
+   */
+  getChildren(id: string): HistoryEntry[] {
+    return this.history
+      .filter((h) => h.parentId === id)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * The entry the given entry's lineage starts from, as far back as its
+   * ancestors are still in the history.
+   */
+  getLineageRoot(id: string): HistoryEntry | undefined {
+    let entry = this.get(id);
+    const seen = new Set<string>();
+    while (entry?.parentId && !seen.has(entry.id)) {
+      seen.add(entry.id);
+      const parent = this.history.find((h) => h.id === entry!.parentId);
+      if (!parent) {
+        break;
+      }
+      entry = parent;
+    }
+    return entry;
+  }
+
   getRecent(limit: number = this.recentLimit): HistoryEntry[] {
     return this.history
       .sort((a, b) => b.timestamp - a.timestamp)
@@ -248,6 +342,31 @@ export class HistoryManager {
     }
   }
 
+  /**
+   * Replace an entry's command with the user's edited version, keeping the
+   * model's output in originalCommand. The validation is replaced too, as
+   * the old one was for the original command.
+   */
+  recordEdit(id: string, command: string, validation?: ValidationResult): void {
+    const entry = this.history.find((h) => h.id === id);
+    if (entry && entry.command !== command) {
+      if (!entry.originalCommand) {
+        entry.originalCommand = entry.command;
+      }
+      entry.command = command;
+      entry.validation = validation;
+      this.save();
+    }
+  }
+
+  recordExecution(id: string, execution: ExecutionRecord): void {
+    const entry = this.history.find((h) => h.id === id);
+    if (entry) {
+      entry.execution = execution;
+      this.save();
+    }
+  }
+
   delete(id: string): boolean {
     const index = this.history.findIndex((h) => h.id === id);
     if (index !== -1) {
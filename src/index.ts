@@ -1,95 +1,798 @@
-import { generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { google } from "@ai-sdk/google";
-import { xai } from "@ai-sdk/xai";
+import {
+  streamObject,
+  RetryError,
+  LoadAPIKeyError,
+  generateObject,
+  APICallError,
+} from "ai";
+import type { LanguageModel, DeepPartial } from "ai";
+import { z } from "zod";
 import { configManager } from "./config.js";
+import { PROVIDER_IDS, getProvider } from "./providers.js";
+import type { ProviderId } from "./providers.js";
+import type { PromptProfile } from "./config.js";
+import { buildMediaContext } from "./probe.js";
+import { responseCache } from "./cache.js";
+import type { CacheKeyParts } from "./cache.js";
+import { parseCommandLine } from "./argv.js";
+import {
+  summarizeCapabilities,
+  findUnavailableFeatures,
+  detectCapabilities,
+} from "./capabilities.js";
+import type { FfmpegCapabilities } from "./capabilities.js";
+import { createRecipe } from "./recipe.js";
+import { formatRecipeCommand } from "./script.js";
+import type { Recipe } from "./recipe.js";
 
 const systemMessage = `You are an expert FFmpeg command generator. Your role is to create precise, efficient FFmpeg commands based on user descriptions.
 
 Rules:
-1. Output ONLY the ffmpeg command - no explanations, comments, or additional text
-2. Always output a single line command with no line breaks
+1. The command field contains ONLY the ffmpeg command - no explanations, comments, or additional text
+2. Always write each command as a single line with no line breaks, and never chain commands with &&, ; or pipes
 3. Use best practices for the requested operation (optimal codecs, bitrates, filters)
 4. Include appropriate flags for quality, performance, and compatibility
 5. Handle common scenarios: format conversion, encoding, filtering, streaming, concatenation
 6. Prefer modern codecs (h264/h265 for video, aac for audio) unless specified otherwise
-7. Use hardware acceleration flags when beneficial (e.g., -hwaccel auto)
-8. Include progress indicators with -progress pipe:1 for long operations
+7. Only use hardware acceleration, encoders and filters that the local ffmpeg capabilities (when given) list as available
+8. Do not add -progress, -stats or -loglevel flags; progress reporting is handled by the caller
+9. List every input and output file, warn about anything surprising (quality loss, overwrites, long encodes), and state any assumption you made where the request was ambiguous
+10. When a task needs several ffmpeg runs (palettegen then paletteuse, two-pass encoding, loudnorm measurement then correction), list them in order as steps and put the last one in the command field. Write intermediate files as {tmp}/<name> (e.g. {tmp}/palette.png) and list their names in tempFiles; they are deleted afterwards. A value a step prints as JSON (e.g. loudnorm with print_format=json) can be used in a later step as {stepN.key}, e.g. {step1.input_i}. Leave steps empty when one command is enough
 
 Examples of expected behavior:
 - "compress video" → use crf for quality-based encoding
 - "remove audio" → use -an flag
 - "extract audio" → use -vn flag
 - "resize to 720p" → use scale filter with proper aspect ratio handling
-- "convert to gif" → optimize with palette generation
+- "convert to gif" → optimize with palette generation`;
 
-Remember: Output ONLY the command, nothing else.`;
+const generationSchema = z.object({
+  command: z
+    .string()
+    .describe("The complete ffmpeg command on a single line, nothing else"),
+  explanation: z
+    .string()
+    .describe("One or two sentences on what the command does"),
+  inputs: z.array(z.string()).describe("Input files, URLs or devices"),
+  outputs: z.array(z.string()).describe("Output files or URLs"),
+  warnings: z
+    .array(z.string())
+    .describe("Caveats the user should know before running the command"),
+  assumptions: z
+    .array(z.string())
+    .describe("Assumptions made where the request was ambiguous"),
+  steps: z
+    .array(
+      z.object({
+        command: z.string().describe("The ffmpeg command for this step"),
+        description: z.string().describe("What this step does, briefly"),
+      }),
+    )
+    .optional()
+    .describe(
+      "Only for tasks that need several ffmpeg runs: every command in order",
+    ),
+  tempFiles: z
+    .array(z.string())
+    .optional()
+    .describe("Names of the intermediate files the steps write to {tmp}/"),
+});
 
-interface GenerateOptions {
+// The provider and model that actually produced a result
+export interface ModelSource {
+  provider: ProviderId;
+  model: string;
+}
+
+export type GenerationResult = Omit<
+  z.infer<typeof generationSchema>,
+  "steps" | "tempFiles"
+> &
+  ModelSource & {
+    // Set when the task needs several commands; command then holds all of them
+    recipe?: Recipe;
+  };
+
+// Everything the model returned besides the command itself
+export type GenerationDetails = Omit<
+  GenerationResult,
+  "command" | keyof ModelSource
+>;
+
+/**
+ * An earlier request of a chat session and the command generated for it.
+ */
+export interface ConversationTurn {
+  prompt: string;
+  command: string;
+}
+
+export interface ModelOptions {
   model?: string;
   provider?: string;
+  // Try the configured fallback providers when the first one fails (default: true)
+  fallback?: boolean;
+  // Called before moving on to the next provider in the fallback chain
+  onFallback?: (error: Error, failed: ModelSource, next: ProviderId) => void;
+  // Cancels the request; aborted requests never fall back
+  signal?: AbortSignal;
+  // Milliseconds to wait for each provider (default: config requestTimeout, 0 disables)
+  timeout?: number;
+  // Retries with exponential backoff on 429 and 5xx responses (default: config maxRetries)
+  maxRetries?: number;
+  // Reuse and store responses in ~/.llmpeg/cache (default: config cache)
+  cache?: boolean;
+  // Only answer from the cache, never call a provider
+  offline?: boolean;
+  // Called when a response was served from the cache
+  onCacheHit?: (source: ModelSource) => void;
+  // Called when a response couldn't be cached; the response is still used
+  onCacheError?: (error: Error) => void;
+}
+
+/**
+ * Thrown when a provider can't be used at all, e.g. because its API key is
+ * missing. The fallback chain moves on to the next provider.
+ */
+export class ProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderUnavailableError";
+  }
 }
 
+/**
+ * Thrown when a provider doesn't answer within the request timeout.
+ * The fallback chain moves on to the next provider.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+/**
+ * Thrown for an unknown model type or prompt profile, before any provider
+ * is asked.
+ */
+export class InvalidOptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidOptionError";
+  }
+}
+
+/**
+ * Thrown when every provider in the fallback chain failed. The message lists
+ * what went wrong with each of them.
+ */
+export class AllProvidersFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AllProvidersFailedError";
+  }
+}
+
+interface GenerateOptions extends ModelOptions {
+  // Inspect files referenced in the prompt with ffprobe (default: true)
+  probe?: boolean;
+  // Receives the media summary that was sent along with the prompt
+  onProbe?: (summary: string) => void;
+  // Named prompt profile from the config, adding its rules or replacing the system prompt
+  profile?: string;
+  // Detect the local ffmpeg's encoders, filters and hwaccels (default: true)
+  capabilities?: boolean;
+  // Ask for a multi-step recipe (true) or a single command (false); the model decides by default
+  recipe?: boolean;
+  // Earlier requests of a chat session, oldest first; the prompt refines the last command
+  conversation?: ConversationTurn[];
+}
+
+export type GenerationStreamEvent =
+  | { type: "partial"; partial: DeepPartial<GenerationResult> }
+  | { type: "done"; result: GenerationResult };
+
 export async function generateFfmpegCommand(
   prompt: string,
   options: GenerateOptions = {},
+): Promise<GenerationResult> {
+  const system = buildSystemMessage(options.profile);
+  const capabilities = await getCapabilities(options);
+  const fullPrompt = await buildPrompt(prompt, options, capabilities);
+
+  const result = await withFallback(
+    options,
+    async (model, source, settings) => {
+      const { object } = await generateObject({
+        model,
+        schema: generationSchema,
+        system,
+        prompt: fullPrompt,
+        ...settings,
+      });
+
+      return postProcessResult(object, source);
+    },
+    { kind: "generate", prompt: fullPrompt, systemPrompt: system },
+  );
+
+  return addCapabilityWarnings(result, capabilities);
+}
+
+/**
+ * Streaming variant of generateFfmpegCommand. Yields partial results as the
+ * model produces them, followed by a single "done" event carrying the
+ * post-processed result.
+ *
+ * Fallback providers are only tried while nothing has been yielded yet;
+ * once output has started, a failure is final. Cached responses are yielded
+ * as a single "done" event.
+ */
+export async function* streamFfmpegCommand(
+  prompt: string,
+  options: GenerateOptions = {},
+): AsyncGenerator<GenerationStreamEvent> {
+  const system = buildSystemMessage(options.profile);
+  const capabilities = await getCapabilities(options);
+  const fullPrompt = await buildPrompt(prompt, options, capabilities);
+  const chain = getProviderChain(options);
+  const errors: [ProviderId, Error][] = [];
+  const cacheRequest: CacheRequest = {
+    kind: "generate",
+    prompt: fullPrompt,
+    systemPrompt: system,
+  };
+
+  for (const [index, providerId] of chain.entries()) {
+    const source = resolveSource(providerId, index === 0 ? options : {});
+    let started = false;
+    let streamError: unknown;
+    const request = createModelRequest(options);
+
+    try {
+      const cacheKey = getCacheKey(options, source, cacheRequest);
+      const cached = readCache<GenerationResult>(options, source, cacheKey);
+      if (cached) {
+        yield {
+          type: "done",
+          result: addCapabilityWarnings(cached, capabilities),
+        };
+        return;
+      }
+
+      const { partialObjectStream, object } = streamObject({
+        model: createLanguageModel(source),
+        schema: generationSchema,
+        system,
+        prompt: fullPrompt,
+        ...request.settings,
+        onError: ({ error }) => {
+          streamError = error;
+        },
+      });
+      // Rejects as well when the stream fails, and isn't awaited then; the
+      // error is reported through streamError instead
+      object.catch(() => {});
+
+      for await (const partial of partialObjectStream) {
+        started = true;
+        yield { type: "partial", partial };
+      }
+
+      if (streamError) {
+        throw streamError;
+      }
+
+      const result = postProcessResult(await object, source);
+      if (cacheKey) {
+        writeCache(options, cacheKey, { ...cacheRequest, ...source }, result);
+      }
+      yield {
+        type: "done",
+        result: addCapabilityWarnings(result, capabilities),
+      };
+      return;
+    } catch (caught) {
+      if (options.signal?.aborted) {
+        throw caught;
+      }
+      const error = request.normalizeError(caught, providerId);
+      const next = chain[index + 1];
+      if (started || !next || !shouldFallBack(error)) {
+        throw combineErrors(errors, providerId, error);
+      }
+      errors.push([providerId, error as Error]);
+      options.onFallback?.(error as Error, source, next);
+    } finally {
+      request.dispose();
+    }
+  }
+}
+
+/**
+ * The built-in system prompt (or the configured override) followed by the
+ * configured house rules and those of the selected profile.
+ */
+function buildSystemMessage(profileName?: string): string {
+  let profile: PromptProfile | undefined;
+  if (profileName) {
+    profile = configManager.getProfile(profileName);
+    if (!profile) {
+      const available = Object.keys(configManager.getProfiles());
+      const hint =
+        available.length > 0
+          ? `Available profiles: ${available.join(", ")}`
+          : "No profiles are configured.";
+      throw new InvalidOptionError(
+        `Unknown prompt profile: ${profileName}. ${hint}`,
+      );
+    }
+  }
+
+  const base =
+    profile?.systemPrompt || configManager.getSystemPrompt() || systemMessage;
+  const rules = [...configManager.getRules(), ...(profile?.rules || [])];
+  if (rules.length === 0) {
+    return base;
+  }
+
+  return `${base}
+
+House rules (these take precedence over everything above):
+${rules.map((rule, index) => `${index + 1}. ${rule}`).join("\n")}`;
+}
+
+async function buildPrompt(
+  prompt: string,
+  options: GenerateOptions,
+  capabilities?: FfmpegCapabilities,
 ) {
-  const { model: modelType = configManager.getDefaultProvider(), provider } =
-    options;
+  const conversation = options.conversation || [];
+  let fullPrompt =
+    conversation.length > 0
+      ? `Earlier requests in this conversation and the commands generated for them:
+${conversation.map((turn, index) => `${index + 1}. ${turn.prompt}\n   ${turn.command}`).join("\n")}
 
-  let model;
-  const apiKey = configManager.getApiKey(modelType);
+Change the last command as follows, keeping everything else it does: ${prompt}`
+      : prompt;
 
-  if (!apiKey) {
-    throw new Error(
-      `No API key found for ${modelType}. Please configure it using:\n` +
-        `  llmpeg config --${modelType} YOUR_API_KEY\n` +
-        `Or set the appropriate environment variable.`,
+  if (options.probe !== false) {
+    // Files are usually only named in the first request
+    const mediaContext = await buildMediaContext(
+      [...conversation.map((turn) => turn.prompt), prompt].join("\n"),
     );
+    if (mediaContext) {
+      options.onProbe?.(mediaContext);
+      fullPrompt += `\n\nMedia information for the referenced files (from ffprobe):\n${mediaContext}`;
+    }
+  }
+
+  if (capabilities) {
+    fullPrompt += `\n\nLocal ffmpeg capabilities:\n${summarizeCapabilities(capabilities)}`;
+  }
+
+  if (options.recipe === true) {
+    fullPrompt +=
+      "\n\nThis task needs more than one ffmpeg run: answer with steps.";
+  } else if (options.recipe === false) {
+    fullPrompt += "\n\nAnswer with a single command and leave steps empty.";
+  }
+
+  return fullPrompt;
+}
+
+async function getCapabilities(
+  options: GenerateOptions,
+): Promise<FfmpegCapabilities | undefined> {
+  return options.capabilities === false ? undefined : detectCapabilities();
+}
+
+/**
+ * Warn about encoders, filters and hwaccels the local ffmpeg doesn't have.
+ */
+function addCapabilityWarnings(
+  result: GenerationResult,
+  capabilities: FfmpegCapabilities | undefined,
+): GenerationResult {
+  if (!capabilities) {
+    return result;
+  }
+
+  const commands = result.recipe
+    ? result.recipe.steps.map((step) => step.command)
+    : [result.command];
+  const unavailable = new Set<string>();
+  for (const command of commands) {
+    let args: string[];
+    try {
+      args = parseCommandLine(command);
+    } catch {
+      continue;
+    }
+    findUnavailableFeatures(args, capabilities)
+      .filter((warning) => !result.warnings.includes(warning))
+      .forEach((warning) => unavailable.add(warning));
   }
 
-  const defaultModel = configManager.getDefaultModel(modelType);
-  const modelName = (provider || defaultModel)!;
+  return unavailable.size > 0
+    ? { ...result, warnings: [...result.warnings, ...unavailable] }
+    : result;
+}
+
+/**
+ * Ask the model for a corrected command after a failed execution,
+ * giving it the original request, the failing command and ffmpeg's error output.
+ */
+export async function repairFfmpegCommand(
+  prompt: string,
+  command: string,
+  errorOutput: string,
+  options: ModelOptions &
+    Pick<GenerateOptions, "profile" | "capabilities"> = {},
+): Promise<GenerationResult> {
+  const system = buildSystemMessage(options.profile);
+  const capabilities = await getCapabilities(options);
+  const repairPrompt = [
+    `Original request: ${prompt}`,
+    `This command was generated for it but failed:\n${command}`,
+    `FFmpeg error output:\n${errorOutput || "(no error output)"}`,
+    capabilities &&
+      `Local ffmpeg capabilities:\n${summarizeCapabilities(capabilities)}`,
+    "Fix the command so it fulfils the original request, as a single command with no steps.",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const result = await withFallback(
+    options,
+    async (model, source, settings) => {
+      const { object } = await generateObject({
+        model,
+        schema: generationSchema,
+        system,
+        prompt: repairPrompt,
+        ...settings,
+      });
+
+      return postProcessResult(object, source);
+    },
+  );
+
+  return addCapabilityWarnings(result, capabilities);
+}
+
+const explainSystemMessage = `You are an FFmpeg expert who explains existing FFmpeg commands to people who did not write them.
+
+Rules:
+1. Group options by where they apply: global options, each input (the options before its -i), and each output file
+2. Explain every option with its value, in one short sentence of plain language
+3. Break filter chains (-vf, -af, -filter_complex) into individual filters and explain each one with its arguments
+4. Warn about deprecated options (e.g. -sameq, -ab, -strict experimental for aac), suspicious combinations, and anything that could lose data or quality unexpectedly
+5. Do not invent options that are not in the command`;
 
-  switch (modelType.toLowerCase()) {
-    case "openai":
-      model = openai(modelName);
-      break;
+const commandExplanationSchema = z.object({
+  summary: z.string().describe("One or two sentences on what the command does"),
+  sections: z.array(
+    z.object({
+      scope: z.enum(["global", "input", "output"]),
+      target: z
+        .string()
+        .optional()
+        .describe("Input or output file this section applies to"),
+      options: z.array(
+        z.object({
+          flag: z.string(),
+          value: z.string().optional(),
+          description: z.string(),
+        }),
+      ),
+      filters: z.array(
+        z.object({
+          name: z.string(),
+          args: z.string().optional(),
+          description: z.string(),
+        }),
+      ),
+    }),
+  ),
+  warnings: z.array(z.string()),
+});
 
-    case "claude":
-      model = anthropic(modelName);
-      break;
+export type CommandExplanation = z.infer<typeof commandExplanationSchema>;
 
-    case "gemini":
-      model = google(modelName);
-      break;
+/**
+ * Break down an existing ffmpeg command into per-flag and per-filter explanations.
+ */
+export async function explainFfmpegCommand(
+  command: string,
+  options: ModelOptions = {},
+): Promise<CommandExplanation> {
+  return withFallback(
+    options,
+    async (model, _source, settings) => {
+      const { object } = await generateObject({
+        model,
+        schema: commandExplanationSchema,
+        system: explainSystemMessage,
+        prompt: command,
+        ...settings,
+      });
 
-    case "grok":
-      model = xai(modelName);
-      break;
+      return object;
+    },
+    { kind: "explain", prompt: command, systemPrompt: explainSystemMessage },
+  );
+}
+
+/**
+ * The requested provider followed by the configured fallback providers,
+ * without duplicates. Unknown provider names are rejected up front.
+ */
+function getProviderChain(options: ModelOptions): ProviderId[] {
+  const modelType = options.model || configManager.getDefaultProvider();
+  const definition = getProvider(modelType);
+  if (!definition) {
+    throw new InvalidOptionError(
+      `Unknown model type: ${modelType}. Supported models: ${PROVIDER_IDS.join(", ")}`,
+    );
+  }
+
+  if (options.fallback === false) {
+    return [definition.id];
+  }
+
+  return [...new Set([definition.id, ...configManager.getFallbackProviders()])];
+}
 
-    default:
-      throw new Error(
-        `Unknown model type: ${modelType}. Supported models: openai, claude, gemini, grok`,
+/**
+ * Run a model call against each provider in the chain until one succeeds.
+ * Only failures another provider could avoid (missing keys, rate limits,
+ * timeouts, server and network errors, rejected credentials) move on to the
+ * next one. The model variant in options.provider only applies to the first
+ * provider.
+ *
+ * With a cacheRequest, each provider's cached answer is used when present and
+ * fresh answers are stored.
+ */
+async function withFallback<T>(
+  options: ModelOptions,
+  run: (
+    model: LanguageModel,
+    source: ModelSource,
+    settings: RequestSettings,
+  ) => Promise<T>,
+  cacheRequest?: CacheRequest,
+): Promise<T> {
+  const chain = getProviderChain(options);
+  const errors: [ProviderId, Error][] = [];
+
+  for (const [index, providerId] of chain.entries()) {
+    const source = resolveSource(providerId, index === 0 ? options : {});
+    const request = createModelRequest(options);
+    try {
+      const cacheKey = getCacheKey(options, source, cacheRequest);
+      const cached = readCache<T>(options, source, cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const result = await run(
+        createLanguageModel(source),
+        source,
+        request.settings,
       );
+      if (cacheKey) {
+        writeCache(options, cacheKey, { ...cacheRequest!, ...source }, result);
+      }
+      return result;
+    } catch (caught) {
+      if (options.signal?.aborted) {
+        throw caught;
+      }
+      const error = request.normalizeError(caught, providerId);
+      const next = chain[index + 1];
+      if (!next || !shouldFallBack(error)) {
+        throw combineErrors(errors, providerId, error);
+      }
+      errors.push([providerId, error as Error]);
+      options.onFallback?.(error as Error, source, next);
+    } finally {
+      request.dispose();
+    }
   }
 
-  const { text } = await generateText({
-    model,
-    system: systemMessage,
-    prompt,
-  });
+  throw new Error("No providers to try.");
+}
 
-  const rawCommand = text.trim();
-  if (!rawCommand) {
-    throw new Error("Failed to generate a response.");
+interface RequestSettings {
+  abortSignal?: AbortSignal;
+  maxRetries: number;
+}
+
+/**
+ * Settings for a single provider attempt. The timeout starts when the attempt
+ * does and covers the SDK's own retries; an abort caused by it is reported as
+ * a RequestTimeoutError so that the next provider gets a chance. Call dispose
+ * once the attempt is over.
+ */
+function createModelRequest(options: ModelOptions) {
+  const timeout = options.timeout ?? configManager.getRequestTimeout() * 1000;
+
+  // The caller's signal and the timeout are combined by hand, since
+  // AbortSignal.any needs Node 20.3
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  let timedOut = false;
+  const timer =
+    timeout > 0
+      ? setTimeout(() => {
+          timedOut = true;
+          abort();
+        }, timeout)
+      : undefined;
+  if (options.signal?.aborted) {
+    abort();
+  } else {
+    options.signal?.addEventListener("abort", abort, { once: true });
   }
 
-  let command = rawCommand.replace(/\\"/g, '"');
-  command = command.replace(/^(\s*ffmpeg)(\s+)/, "$1 -v quiet -stats$2");
+  const settings: RequestSettings = {
+    abortSignal: controller.signal,
+    maxRetries: options.maxRetries ?? configManager.getMaxRetries(),
+  };
+
+  return {
+    settings,
+    normalizeError: (error: unknown, providerId: ProviderId): unknown =>
+      timedOut
+        ? new RequestTimeoutError(
+            `${providerId} did not respond within ${timeout / 1000}s`,
+          )
+        : error,
+    dispose: () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", abort);
+    },
+  };
+}
+
+interface CacheRequest {
+  kind: string;
+  prompt: string;
+  systemPrompt: string;
+}
+
+function getCacheKey(
+  options: ModelOptions,
+  source: ModelSource,
+  cacheRequest: CacheRequest | undefined,
+): string | undefined {
+  if (!cacheRequest || !(options.cache ?? configManager.getCache())) {
+    return undefined;
+  }
+  return responseCache.createKey({ ...cacheRequest, ...source });
+}
+
+function writeCache(
+  options: ModelOptions,
+  key: string,
+  parts: Omit<CacheKeyParts, "systemPrompt">,
+  value: unknown,
+): void {
+  try {
+    responseCache.set(key, parts, value);
+  } catch (error) {
+    options.onCacheError?.(error as Error);
+  }
+}
+
+/**
+ * Look up a cached response. In offline mode a miss is reported as the
+ * provider being unavailable, so the next provider's cache is checked.
+ */
+function readCache<T>(
+  options: ModelOptions,
+  source: ModelSource,
+  cacheKey: string | undefined,
+): T | undefined {
+  const cached = cacheKey ? responseCache.get<T>(cacheKey) : undefined;
+  if (cached) {
+    options.onCacheHit?.(source);
+    return cached;
+  }
+
+  if (options.offline) {
+    throw new ProviderUnavailableError(
+      `No cached response from ${source.provider}/${source.model} (offline mode)`,
+    );
+  }
+  return undefined;
+}
+
+function resolveSource(
+  providerId: ProviderId,
+  options: ModelOptions,
+): ModelSource {
+  const config = configManager.getProviderConfig(providerId);
+  return {
+    provider: providerId,
+    model: options.provider || config.defaultModel!,
+  };
+}
+
+function createLanguageModel({ provider, model }: ModelSource): LanguageModel {
+  const definition = getProvider(provider)!;
+  const config = configManager.getProviderConfig(definition.id);
+
+  if (!config.apiKey && definition.requiresApiKey) {
+    throw new ProviderUnavailableError(
+      `No API key found for ${provider}. Please configure it using:\n` +
+        `  llmpeg config --${definition.keyFlag || definition.id} YOUR_API_KEY\n` +
+        `Or set the ${definition.envVar} environment variable.`,
+    );
+  }
+
+  return definition.createModel(model, config);
+}
+
+function shouldFallBack(error: unknown): boolean {
+  if (
+    error instanceof ProviderUnavailableError ||
+    error instanceof RequestTimeoutError ||
+    LoadAPIKeyError.isInstance(error)
+  ) {
+    return true;
+  }
+  if (RetryError.isInstance(error)) {
+    return shouldFallBack(error.lastError);
+  }
+  if (APICallError.isInstance(error)) {
+    return (
+      error.isRetryable || error.statusCode === 401 || error.statusCode === 403
+    );
+  }
+  return false;
+}
+
+/**
+ * When several providers were tried, report what went wrong with each of them.
+ */
+function combineErrors(
+  previous: [ProviderId, Error][],
+  providerId: ProviderId,
+  error: unknown,
+): unknown {
+  if (previous.length === 0) {
+    return error;
+  }
+
+  const failures = [...previous, [providerId, error as Error] as const].map(
+    ([id, err]) => `  ${id}: ${err.message.split("\n")[0]}`,
+  );
+  return new AllProvidersFailedError(
+    `All providers failed:\n${failures.join("\n")}`,
+  );
+}
+
+function postProcessResult(
+  result: z.infer<typeof generationSchema>,
+  source: ModelSource,
+): GenerationResult {
+  const { steps, tempFiles, ...rest } = result;
+  const recipe = createRecipe(steps, tempFiles);
+  if (recipe) {
+    return { ...rest, command: formatRecipeCommand(recipe), recipe, ...source };
+  }
+
+  // The schema already decoded the JSON string, so escapes left in it are
+  // meant for ffmpeg
+  const command = result.command.trim();
+  if (!command) {
+    throw new Error("Failed to generate a response.");
+  }
 
-  return command;
+  return { ...rest, command, ...source };
 }
 
 // Example usage (only runs when called directly)
@@ -98,7 +801,7 @@ if (import.meta.main) {
     const prompt =
       "convert exampleVid.mov to h264, remove audio, and put it in an mp4 container";
     try {
-      const command = await generateFfmpegCommand(prompt);
+      const { command } = await generateFfmpegCommand(prompt);
       console.log(`Prompt: ${prompt}`);
       console.log(`Command: ${command}`);
     } catch (error) {
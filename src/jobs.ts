@@ -0,0 +1,386 @@
+import {
+  writeFileSync,
+  unlinkSync,
+  statSync,
+  readFileSync,
+  readdirSync,
+  mkdirSync,
+  linkSync,
+  existsSync,
+  appendFileSync,
+} from "fs";
+import { resolve, join } from "path";
+import { homedir } from "os";
+import crypto from "crypto";
+import { parseCommandLine, isLocalPath, getCommandFiles } from "./argv.js";
+import { executeCommand, CommandExecutionError } from "./executor.js";
+
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface Job {
+  id: string;
+  command: string;
+  status: JobStatus;
+  // What the command was generated for, when it came from the history
+  prompt?: string;
+  historyId?: string;
+  // Directory the job was queued from, which relative paths are resolved against
+  cwd?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  attempts: number;
+  exitCode?: number | null;
+  error?: string;
+  // ffmpeg process of a running job, so it can be cancelled from another terminal
+  pid?: number;
+}
+
+export interface JobRunOptions {
+  // Jobs running at the same time
+  concurrency: number;
+  // Stops starting new jobs; jobs it interrupts go back to the queue
+  signal?: AbortSignal;
+  // Called for jobs a crashed runner left behind, before anything starts
+  onResume?: (job: Job) => void;
+  onStart?: (job: Job) => void;
+  onFinish?: (job: Job) => void;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Persistent queue of commands in ~/.llmpeg/jobs. Every job is a JSON file
+ * with its stderr captured next to it in <id>.log, so jobs survive the
+ * terminal they were queued from. One runner at a time works through the
+ * queue, guarded by a lock file holding its process ID.
+ */
+export class JobManager {
+  private readonly jobsPath: string;
+  private readonly lockFile: string;
+
+  constructor() {
+    this.jobsPath = join(homedir(), ".llmpeg", "jobs");
+    this.lockFile = join(this.jobsPath, "runner.lock");
+  }
+
+  add(command: string, source: Pick<Job, "prompt" | "historyId"> = {}): Job {
+    const job: Job = {
+      id: crypto.randomBytes(4).toString("hex"),
+      command,
+      status: "queued",
+      ...source,
+      cwd: process.cwd(),
+      createdAt: Date.now(),
+      attempts: 0,
+    };
+    this.save(job);
+    return job;
+  }
+
+  /**
+   * All jobs, oldest first.
+   */
+  list(): Job[] {
+    if (!existsSync(this.jobsPath)) {
+      return [];
+    }
+
+    return readdirSync(this.jobsPath)
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => this.read(join(this.jobsPath, name)))
+      .filter((job): job is Job => !!job)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Find a job by its ID or an unambiguous prefix of it.
+   */
+  get(id: string): Job | undefined {
+    const exact = this.read(this.getPath(id));
+    if (exact) {
+      return exact;
+    }
+    const matches = this.list().filter((job) => job.id.startsWith(id));
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  getLogPath(id: string): string {
+    return join(this.jobsPath, `${id}.log`);
+  }
+
+  /**
+   * Take a queued job off the queue, or stop a running one.
+   */
+  cancel(id: string): Job {
+    const job = this.require(id);
+    if (job.status !== "queued" && job.status !== "running") {
+      throw new Error(`Job ${job.id} is already ${job.status}`);
+    }
+
+    if (job.status === "running" && job.pid) {
+      try {
+        process.kill(job.pid, "SIGTERM");
+      } catch {
+        // Already exited
+      }
+    }
+
+    job.status = "cancelled";
+    job.finishedAt = Date.now();
+    this.save(job);
+    return job;
+  }
+
+  /**
+   * Put a failed or cancelled job back on the queue.
+   */
+  retry(id: string): Job {
+    const job = this.require(id);
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      throw new Error(
+        `Only failed or cancelled jobs can be retried, ${job.id} is ${job.status}`,
+      );
+    }
+
+    job.status = "queued";
+    delete job.finishedAt;
+    delete job.exitCode;
+    delete job.error;
+    this.save(job);
+    return job;
+  }
+
+  /**
+   * Process ID of the runner currently working through the queue, if any.
+   */
+  getRunnerPid(): number | undefined {
+    if (!existsSync(this.lockFile)) {
+      return undefined;
+    }
+    const pid = Number.parseInt(readFileSync(this.lockFile, "utf-8"), 10);
+    return !Number.isNaN(pid) && isAlive(pid) ? pid : undefined;
+  }
+
+  /**
+   * Run queued jobs, at most `concurrency` at a time, until the queue is
+   * empty. Jobs queued while running are picked up too. Jobs left "running"
+   * by a runner that crashed (or a reboot) are queued again first.
+   */
+  async run(options: JobRunOptions): Promise<void> {
+    mkdirSync(this.jobsPath, { recursive: true });
+    this.acquireLock();
+
+    try {
+      this.requeueInterrupted().forEach((job) => options.onResume?.(job));
+      const running = new Set<Promise<void>>();
+
+      while (!options.signal?.aborted) {
+        const next =
+          running.size < options.concurrency
+            ? this.list().find((job) => job.status === "queued")
+            : undefined;
+
+        if (next) {
+          const task = this.runJob(next, options).finally(() =>
+            running.delete(task),
+          );
+          running.add(task);
+        } else if (running.size === 0) {
+          break;
+        } else {
+          await Promise.race([...running, sleep(POLL_INTERVAL_MS)]);
+        }
+      }
+
+      await Promise.all(running);
+    } finally {
+      try {
+        unlinkSync(this.lockFile);
+      } catch {
+        // Already removed
+      }
+    }
+  }
+
+  /**
+   * Take the runner lock. The lock file is hard-linked into place with the
+   * process ID already in it, so when two runners start at once exactly one
+   * of them gets it. A lock left behind by a runner that died is replaced.
+   */
+  private acquireLock(): void {
+    const candidate = `${this.lockFile}.${process.pid}`;
+    writeFileSync(candidate, String(process.pid));
+    try {
+      while (true) {
+        try {
+          linkSync(candidate, this.lockFile);
+          return;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        }
+
+        const runner = this.getRunnerPid();
+        if (runner) {
+          throw new Error(`Jobs are already being run by process ${runner}`);
+        }
+        try {
+          unlinkSync(this.lockFile);
+        } catch {
+          // Another runner removed the stale lock first
+        }
+      }
+    } finally {
+      unlinkSync(candidate);
+    }
+  }
+
+  private async runJob(job: Job, options: JobRunOptions): Promise<void> {
+    const logPath = this.getLogPath(job.id);
+    job.status = "running";
+    job.startedAt = Date.now();
+    job.attempts++;
+    this.save(job);
+    appendFileSync(
+      logPath,
+      `[${new Date(job.startedAt).toISOString()}] Attempt ${job.attempts}\n$ ${job.command}\n`,
+    );
+    options.onStart?.(job);
+
+    let status: JobStatus = "done";
+    try {
+      await executeCommand(job.command, {
+        ignoreStdin: true,
+        cwd: job.cwd,
+        onStderr: (chunk) => appendFileSync(logPath, chunk),
+        onSpawn: (pid) => {
+          job.pid = pid;
+          this.save(job);
+        },
+      });
+      job.exitCode = 0;
+    } catch (error) {
+      const failed = error instanceof CommandExecutionError ? error : undefined;
+      status = "failed";
+      job.exitCode = failed?.exitCode;
+      job.error =
+        failed?.stderrTail.split("\n").pop() || (error as Error).message;
+    }
+
+    // `jobs cancel` may have changed the job while it ran
+    if (this.read(this.getPath(job.id))?.status === "cancelled") {
+      status = "cancelled";
+    } else if (status === "failed" && options.signal?.aborted) {
+      status = "queued";
+      removePartialOutputs(job);
+    }
+
+    job.status = status;
+    delete job.pid;
+    if (status === "queued") {
+      delete job.exitCode;
+      delete job.error;
+    } else {
+      job.finishedAt = Date.now();
+    }
+    this.save(job);
+    appendFileSync(
+      logPath,
+      status === "queued"
+        ? "[interrupted, queued again]\n\n"
+        : `[${status}${job.exitCode !== undefined ? `, exit code ${job.exitCode}` : ""}]\n\n`,
+    );
+    options.onFinish?.(job);
+  }
+
+  private requeueInterrupted(): Job[] {
+    // The lock is ours, so nothing else can be running these
+    const interrupted = this.list().filter((job) => job.status === "running");
+    for (const job of interrupted) {
+      removePartialOutputs(job);
+      job.status = "queued";
+      delete job.pid;
+      this.save(job);
+    }
+    return interrupted;
+  }
+
+  private require(id: string): Job {
+    const job = this.get(id);
+    if (!job) {
+      throw new Error(`Job "${id}" not found`);
+    }
+    return job;
+  }
+
+  private getPath(id: string): string {
+    return join(this.jobsPath, `${id}.json`);
+  }
+
+  private read(path: string): Job | undefined {
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(readFileSync(path, "utf-8"));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private save(job: Job): void {
+    try {
+      mkdirSync(this.jobsPath, { recursive: true });
+      writeFileSync(this.getPath(job.id), JSON.stringify(job, null, 2));
+    } catch (error) {
+      throw new Error(
+        `Failed to save job ${job.id}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delete outputs an interrupted run had started writing, so the retry
+ * doesn't stop at ffmpeg's overwrite question. Files older than the run
+ * are left alone.
+ */
+function removePartialOutputs(job: Job): void {
+  // Without the directory it ran in, a relative name could match another file
+  if (!job.startedAt || !job.cwd) {
+    return;
+  }
+
+  let args: string[];
+  try {
+    args = parseCommandLine(job.command);
+  } catch {
+    return;
+  }
+
+  for (const path of getCommandFiles(args).outputs.filter(isLocalPath)) {
+    const output = resolve(job.cwd, path);
+    try {
+      if (statSync(output).mtimeMs >= job.startedAt) {
+        unlinkSync(output);
+      }
+    } catch {
+      // Never written
+    }
+  }
+}
+
+export const jobManager = new JobManager();
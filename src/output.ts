@@ -0,0 +1,64 @@
+import { RetryError, APICallError } from "ai";
+import {
+  RequestTimeoutError,
+  ProviderUnavailableError,
+  InvalidOptionError,
+  AllProvidersFailedError,
+} from "./index.js";
+
+export type ErrorCode =
+  | "INVALID_OPTION"
+  | "PROVIDER_UNAVAILABLE"
+  | "REQUEST_TIMEOUT"
+  | "PROVIDER_ERROR"
+  | "GENERATION_FAILED"
+  | "CONFIRMATION_REQUIRED"
+  | "EXECUTION_BLOCKED"
+  | "EXECUTION_FAILED"
+  | "CANCELLED";
+
+/**
+ * Whether to print JSON instead of human-readable output. --json and
+ * --no-json decide; without either, JSON is used when stdout isn't a
+ * terminal (piped into jq, captured by a script, ...).
+ */
+export function isJsonOutput(option: boolean | undefined): boolean {
+  return option ?? !process.stdout.isTTY;
+}
+
+export function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+/**
+ * Errors go to stderr as {"error": {"code", "message"}}, so stdout holds
+ * nothing but results.
+ */
+export function printJsonError(code: ErrorCode, message: string): void {
+  process.stderr.write(`${JSON.stringify({ error: { code, message } })}\n`);
+}
+
+/**
+ * Map an error thrown while generating a command to its error code.
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  if (error instanceof InvalidOptionError) {
+    return "INVALID_OPTION";
+  }
+  if (error instanceof ProviderUnavailableError) {
+    return "PROVIDER_UNAVAILABLE";
+  }
+  if (error instanceof RequestTimeoutError) {
+    return "REQUEST_TIMEOUT";
+  }
+  if (
+    error instanceof AllProvidersFailedError ||
+    APICallError.isInstance(error) ||
+    RetryError.isInstance(error) ||
+    // Network errors, e.g. a local server that isn't running
+    typeof (error as NodeJS.ErrnoException)?.code === "string"
+  ) {
+    return "PROVIDER_ERROR";
+  }
+  return "GENERATION_FAILED";
+}
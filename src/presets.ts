@@ -28,6 +28,8 @@ export interface Preset {
   tags: string[];
   difficulty: "beginner" | "intermediate" | "advanced";
   commonUse: boolean;
+  // Needs several ffmpeg runs, so a multi-step recipe is generated
+  recipe?: boolean;
 }
 
 export interface CustomPreset extends Preset {
@@ -161,7 +163,7 @@ const builtInPresets: Preset[] = [
     description: "Convert video segment to animated GIF",
     category: "GIF Creation",
     prompt:
-      "create gif from {input} starting at {start} seconds for {duration} seconds with {fps}fps and width {width}px",
+      "create gif from {input} starting at {start} seconds for {duration} seconds with {fps}fps and width {width}px, generating a palette first and then applying it",
     parameters: [
       {
         name: "input",
@@ -201,6 +203,7 @@ const builtInPresets: Preset[] = [
     tags: ["gif", "animation", "conversion"],
     difficulty: "intermediate",
     commonUse: true,
+    recipe: true,
   },
   {
     id: "optimize-gif",
@@ -208,7 +211,7 @@ const builtInPresets: Preset[] = [
     description: "Create optimized GIF with better colors and smaller size",
     category: "GIF Creation",
     prompt:
-      "create optimized gif from {input} between {start}-{end} seconds with palette optimization",
+      "create optimized gif from {input} between {start}-{end} seconds, generating an optimized palette first and then applying it with dithering",
     parameters: [
       {
         name: "input",
@@ -232,6 +235,7 @@ const builtInPresets: Preset[] = [
     tags: ["gif", "optimization", "palette"],
     difficulty: "advanced",
     commonUse: false,
+    recipe: true,
   },
 
   // Audio Processing
@@ -273,7 +277,8 @@ const builtInPresets: Preset[] = [
     name: "Normalize Audio",
     description: "Normalize audio levels in video",
     category: "Audio Processing",
-    prompt: "normalize audio in {input} to {level}dB peak level",
+    prompt:
+      "normalize audio in {input} to {level}dB peak level, measuring the levels with loudnorm first and then applying the correction",
     parameters: [
       {
         name: "input",
@@ -292,6 +297,7 @@ const builtInPresets: Preset[] = [
     tags: ["audio", "normalization", "loudness"],
     difficulty: "intermediate",
     commonUse: false,
+    recipe: true,
   },
 
   // Video Editing
@@ -0,0 +1,189 @@
+import { execFile } from "child_process";
+import { statSync, existsSync } from "fs";
+import { basename } from "path";
+
+export interface ProbeStream {
+  index: number;
+  codec_type?: string;
+  codec_name?: string;
+  width?: number;
+  height?: number;
+  pix_fmt?: string;
+  avg_frame_rate?: string;
+  sample_rate?: string;
+  channels?: number;
+  channel_layout?: string;
+  bit_rate?: string;
+  tags?: Record<string, string>;
+}
+
+export interface ProbeResult {
+  path: string;
+  streams: ProbeStream[];
+  format: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    size?: string;
+  };
+}
+
+const PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * Find files mentioned in a prompt that exist on disk.
+ * Quoted names are taken as-is, bare words are only considered when they
+ * look like a file name with an extension.
+ */
+export function findReferencedFiles(prompt: string): string[] {
+  const candidates: string[] = [];
+
+  for (const match of prompt.matchAll(/"([^"]+)"|'([^']+)'/g)) {
+    candidates.push(match[1] ?? match[2]);
+  }
+
+  for (const word of prompt.split(/\s+/)) {
+    const cleaned = word
+      .replace(/^["'(]+|["'),;:!?]+$/g, "")
+      .replace(/\.$/, "");
+    if (/\.\w{2,5}$/.test(cleaned)) {
+      candidates.push(cleaned);
+    }
+  }
+
+  return [...new Set(candidates)].filter((candidate) => {
+    try {
+      return existsSync(candidate) && statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Run ffprobe on a file and return its parsed JSON output.
+ */
+export function probeMedia(path: string): Promise<ProbeResult> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "ffprobe",
+      [
+        "-v",
+        "quiet",
+        "-print_format",
+        "json",
+        "-show_format",
+        "-show_streams",
+        path,
+      ],
+      { timeout: PROBE_TIMEOUT_MS },
+      (error, stdout) => {
+        if (error) {
+          reject(new Error(`ffprobe failed for ${path}: ${error.message}`));
+          return;
+        }
+        try {
+          const data = JSON.parse(stdout);
+          resolve({
+            path,
+            streams: data.streams || [],
+            format: data.format || {},
+          });
+        } catch {
+          reject(new Error(`ffprobe returned invalid JSON for ${path}`));
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Render a compact, model-friendly description of a probed file.
+ */
+export function summarizeProbe(probe: ProbeResult): string {
+  const { format } = probe;
+  const header = [
+    basename(probe.path),
+    format.format_name,
+    format.duration && formatDuration(Number.parseFloat(format.duration)),
+    format.bit_rate && formatBitrate(format.bit_rate),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const streams = probe.streams.map((stream) => {
+    const parts = [
+      `#${stream.index}`,
+      stream.codec_type || "unknown",
+      stream.codec_name,
+    ];
+
+    if (stream.codec_type === "video") {
+      if (stream.width && stream.height) {
+        parts.push(`${stream.width}x${stream.height}`);
+      }
+      const fps = parseFrameRate(stream.avg_frame_rate);
+      if (fps) parts.push(`${fps}fps`);
+      parts.push(stream.pix_fmt);
+    } else if (stream.codec_type === "audio") {
+      if (stream.sample_rate) parts.push(`${stream.sample_rate}Hz`);
+      parts.push(
+        stream.channel_layout ||
+          (stream.channels && `${stream.channels}ch`) ||
+          undefined,
+      );
+    }
+
+    if (stream.bit_rate) parts.push(formatBitrate(stream.bit_rate));
+    if (stream.tags?.language) parts.push(`[${stream.tags.language}]`);
+    if (stream.tags?.title) parts.push(`"${stream.tags.title}"`);
+
+    return `  ${parts.filter(Boolean).join(" ")}`;
+  });
+
+  return [header, ...streams].join("\n");
+}
+
+/**
+ * Probe every existing file referenced in a prompt and build a summary for the model.
+ * Files that cannot be probed (or a missing ffprobe) are silently skipped.
+ */
+export async function buildMediaContext(
+  prompt: string,
+): Promise<string | undefined> {
+  const files = findReferencedFiles(prompt);
+  const summaries: string[] = [];
+
+  for (const file of files) {
+    try {
+      summaries.push(summarizeProbe(await probeMedia(file)));
+    } catch {
+      // Not a media file or ffprobe is unavailable
+    }
+  }
+
+  return summaries.length > 0 ? summaries.join("\n") : undefined;
+}
+
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined;
+  const [num, den] = rate.split("/").map(Number);
+  if (!num || !den) return undefined;
+  return Math.round((num / den) * 100) / 100;
+}
+
+function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) return "unknown duration";
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toFixed(2).padStart(5, "0");
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}:${s}`;
+}
+
+function formatBitrate(bitRate: string): string {
+  const bps = Number.parseInt(bitRate, 10);
+  if (!bps) return "";
+  return bps >= 1_000_000
+    ? `${(bps / 1_000_000).toFixed(1)} Mb/s`
+    : `${Math.round(bps / 1000)} kb/s`;
+}
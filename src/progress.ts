@@ -0,0 +1,235 @@
+import { existsSync } from "fs";
+import { getCommandFiles } from "./argv.js";
+import { probeMedia } from "./probe.js";
+
+export interface ExecutionProgress {
+  frame?: number;
+  fps?: number;
+  bitrate?: string;
+  totalSize?: number;
+  // Position in the output, in seconds
+  outTime?: number;
+  // Realtime multiplier reported by ffmpeg (e.g. 2.5 for "2.5x")
+  speed?: number;
+  // Only known when the total duration could be determined
+  duration?: number;
+  percent?: number;
+  eta?: number;
+  done: boolean;
+}
+
+/**
+ * Incrementally parse ffmpeg's `-progress` output (key=value lines, one block
+ * per update, each terminated by a `progress=continue|end` line).
+ */
+export class ProgressParser {
+  private buffer = "";
+  private values: Record<string, string> = {};
+
+  constructor(
+    private readonly duration: number | undefined,
+    private readonly onProgress: (progress: ExecutionProgress) => void,
+  ) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const separator = line.indexOf("=");
+      if (separator === -1) continue;
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+      this.values[key] = value;
+
+      if (key === "progress") {
+        this.onProgress(this.build(value === "end"));
+        this.values = {};
+      }
+    }
+  }
+
+  private build(done: boolean): ExecutionProgress {
+    const { values, duration } = this;
+    const outTimeUs = Number.parseInt(
+      values.out_time_us ?? values.out_time_ms ?? "",
+      10,
+    );
+    const outTime =
+      Number.isFinite(outTimeUs) && outTimeUs >= 0
+        ? outTimeUs / 1_000_000
+        : undefined;
+    const speed = Number.parseFloat(values.speed ?? "");
+
+    const progress: ExecutionProgress = {
+      frame: toNumber(values.frame),
+      fps: toNumber(values.fps),
+      bitrate:
+        values.bitrate && values.bitrate !== "N/A" ? values.bitrate : undefined,
+      totalSize: toNumber(values.total_size),
+      outTime,
+      speed: Number.isFinite(speed) ? speed : undefined,
+      duration,
+      done,
+    };
+
+    if (duration && outTime !== undefined) {
+      progress.percent = done ? 100 : Math.min(100, (outTime / duration) * 100);
+      if (progress.speed && progress.speed > 0) {
+        progress.eta = Math.max(0, (duration - outTime) / progress.speed);
+      }
+    }
+
+    return progress;
+  }
+}
+
+/**
+ * Work out how long the output of an ffmpeg invocation will be, using -t/-to
+ * when present and otherwise ffprobing the first local input.
+ * Returns undefined for live sources, lavfi graphs and anything unprobeable.
+ */
+export async function estimateOutputDuration(
+  args: string[],
+): Promise<number | undefined> {
+  const duration = parseTimeSpec(getOptionValue(args, "-t"));
+  if (duration !== undefined) {
+    return duration;
+  }
+
+  const { inputs } = getCommandFiles(args);
+  const input = inputs.find((path) => existsSync(path));
+  if (!input) {
+    return undefined;
+  }
+
+  try {
+    const probe = await probeMedia(input);
+    const total = Number.parseFloat(probe.format.duration ?? "");
+    if (!Number.isFinite(total) || total <= 0) {
+      return undefined;
+    }
+
+    const end = parseTimeSpec(getOptionValue(args, "-to")) ?? total;
+    const start = parseTimeSpec(getOptionValue(args, "-ss")) ?? 0;
+    return Math.max(0, Math.min(end, total) - start) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Render a single-line progress bar for the terminal.
+ */
+export function formatProgressLine(
+  progress: ExecutionProgress,
+  width = 24,
+): string {
+  const parts: string[] = [];
+
+  if (progress.percent !== undefined) {
+    const filled = Math.round((progress.percent / 100) * width);
+    parts.push(
+      `[${"█".repeat(filled)}${"░".repeat(width - filled)}] ${progress.percent.toFixed(1).padStart(5)}%`,
+    );
+  } else if (progress.outTime !== undefined) {
+    parts.push(formatClock(progress.outTime));
+  }
+
+  if (progress.fps !== undefined) parts.push(`${progress.fps} fps`);
+  if (progress.speed !== undefined) parts.push(`${progress.speed}x`);
+  if (progress.bitrate) parts.push(progress.bitrate);
+  if (progress.eta !== undefined && !progress.done) {
+    parts.push(`ETA ${formatClock(progress.eta)}`);
+  }
+
+  return parts.join(" | ");
+}
+
+export interface ProgressReporter {
+  onProgress: (progress: ExecutionProgress) => void;
+  onStderr: (chunk: Buffer) => void;
+  finish: () => void;
+}
+
+/**
+ * Draw a live progress line on a terminal stream, keeping it below any
+ * stderr output ffmpeg prints in the meantime. Non-TTY streams only get
+ * the stderr passthrough.
+ */
+export function createProgressReporter(
+  stream: NodeJS.WriteStream = process.stderr,
+): ProgressReporter {
+  const interactive = !!stream.isTTY;
+  let line = "";
+
+  const clear = () => {
+    if (line) stream.write("\r\x1B[2K");
+  };
+
+  return {
+    onProgress: (progress) => {
+      if (!interactive) return;
+      clear();
+      line = formatProgressLine(progress);
+      stream.write(line);
+      if (progress.done) {
+        stream.write("\n");
+        line = "";
+      }
+    },
+    onStderr: (chunk) => {
+      clear();
+      stream.write(chunk);
+      if (line) stream.write(line);
+    },
+    finish: () => {
+      if (line) {
+        stream.write("\n");
+        line = "";
+      }
+    },
+  };
+}
+
+function getOptionValue(args: string[], option: string): string | undefined {
+  const index = args.indexOf(option);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * Parse an ffmpeg time duration: "90", "90.5", "1:30", "00:01:30.5" or "1500ms".
+ */
+function parseTimeSpec(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const units = value.match(/^(\d+(?:\.\d+)?)(ms|us|s)$/);
+  if (units) {
+    const amount = Number.parseFloat(units[1]);
+    const divisors = { s: 1, ms: 1000, us: 1_000_000 };
+    return amount / divisors[units[2] as keyof typeof divisors];
+  }
+
+  if (!/^\d+(?::\d+){0,2}(?:\.\d+)?$/.test(value)) return undefined;
+
+  return value
+    .split(":")
+    .map(Number.parseFloat)
+    .reduce((total, part) => total * 60 + part, 0);
+}
+
+function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return [h, m, s].map((n) => String(n).padStart(2, "0")).join(":");
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
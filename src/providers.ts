@@ -0,0 +1,205 @@
+import type { LanguageModel } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createXai } from "@ai-sdk/xai";
+import { createMistral } from "@ai-sdk/mistral";
+import { createGroq } from "@ai-sdk/groq";
+import { createDeepSeek } from "@ai-sdk/deepseek";
+import { createAzure } from "@ai-sdk/azure";
+
+export const PROVIDER_IDS = [
+  "openai",
+  "claude",
+  "gemini",
+  "grok",
+  "mistral",
+  "groq",
+  "deepseek",
+  "openrouter",
+  "azure",
+  "local",
+] as const;
+
+export type ProviderId = (typeof PROVIDER_IDS)[number];
+
+export interface ProviderConfig {
+  apiKey?: string;
+  defaultModel?: string;
+  baseURL?: string;
+  resourceName?: string;
+}
+
+// Provider-specific settings beyond the API key
+export interface ProviderSetting {
+  name: keyof ProviderConfig;
+  // `llmpeg config --<flag> <value>`
+  flag: string;
+  description: string;
+  envVar?: string;
+  default?: string;
+  // Value written by `llmpeg init`
+  sample?: string;
+}
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  displayName: string;
+  defaultModel: string;
+  // Environment variable holding the API key
+  envVar?: string;
+  // Keyless providers (local servers) work without an API key
+  requiresApiKey: boolean;
+  // `llmpeg config --<keyFlag> <key>`, defaults to the provider id
+  keyFlag?: string;
+  // Placeholder written by `llmpeg init`
+  sampleApiKey?: string;
+  settings?: ProviderSetting[];
+  createModel: (modelName: string, config: ProviderConfig) => LanguageModel;
+}
+
+export const providerRegistry: Record<ProviderId, ProviderDefinition> = {
+  openai: {
+    id: "openai",
+    displayName: "OpenAI",
+    defaultModel: "gpt-4o-mini",
+    envVar: "OPENAI_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "sk-YOUR_OPENAI_API_KEY_HERE",
+    createModel: (model, { apiKey }) =>
+      createOpenAI({ apiKey, compatibility: "strict" })(model),
+  },
+  claude: {
+    id: "claude",
+    displayName: "Claude",
+    defaultModel: "claude-3-haiku-20240307",
+    envVar: "ANTHROPIC_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "sk-ant-REDACTED",
+    createModel: (model, { apiKey }) => createAnthropic({ apiKey })(model),
+  },
+  gemini: {
+    id: "gemini",
+    displayName: "Gemini",
+    defaultModel: "gemini-1.5-flash",
+    envVar: "GOOGLE_GENERATIVE_AI_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "YOUR_GEMINI_API_KEY_HERE",
+    createModel: (model, { apiKey }) =>
+      createGoogleGenerativeAI({ apiKey })(model),
+  },
+  grok: {
+    id: "grok",
+    displayName: "Grok",
+    defaultModel: "grok-beta",
+    envVar: "XAI_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "xai-YOUR_GROK_API_KEY_HERE",
+    createModel: (model, { apiKey }) => createXai({ apiKey })(model),
+  },
+  mistral: {
+    id: "mistral",
+    displayName: "Mistral",
+    defaultModel: "mistral-small-latest",
+    envVar: "MISTRAL_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "YOUR_MISTRAL_API_KEY_HERE",
+    createModel: (model, { apiKey }) => createMistral({ apiKey })(model),
+  },
+  groq: {
+    id: "groq",
+    displayName: "Groq",
+    defaultModel: "llama-3.3-70b-versatile",
+    envVar: "GROQ_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "gsk_YOUR_GROQ_API_KEY_HERE",
+    createModel: (model, { apiKey }) => createGroq({ apiKey })(model),
+  },
+  deepseek: {
+    id: "deepseek",
+    displayName: "DeepSeek",
+    defaultModel: "deepseek-chat",
+    envVar: "DEEPSEEK_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "sk-YOUR_DEEPSEEK_API_KEY_HERE",
+    createModel: (model, { apiKey }) => createDeepSeek({ apiKey })(model),
+  },
+  openrouter: {
+    id: "openrouter",
+    displayName: "OpenRouter",
+    defaultModel: "openai/gpt-4o-mini",
+    envVar: "OPENROUTER_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "sk-or-YOUR_OPENROUTER_API_KEY_HERE",
+    createModel: (model, { apiKey }) =>
+      createOpenAI({
+        name: "openrouter",
+        baseURL: "https://openrouter.ai/api/v1",
+        apiKey,
+        compatibility: "compatible",
+      })(model),
+  },
+  azure: {
+    id: "azure",
+    displayName: "Azure OpenAI",
+    // Azure addresses models by deployment name
+    defaultModel: "gpt-4o-mini",
+    envVar: "AZURE_API_KEY",
+    requiresApiKey: true,
+    sampleApiKey: "YOUR_AZURE_API_KEY_HERE",
+    settings: [
+      {
+        name: "resourceName",
+        flag: "azure-resource",
+        description: "Set the Azure OpenAI resource name",
+        envVar: "AZURE_RESOURCE_NAME",
+        sample: "your-resource-name",
+      },
+    ],
+    createModel: (model, { apiKey, resourceName, baseURL }) =>
+      createAzure({ apiKey, resourceName, baseURL })(model),
+  },
+  local: {
+    id: "local",
+    displayName: "Local",
+    defaultModel: "llama3.2",
+    envVar: "LLMPEG_LOCAL_API_KEY",
+    requiresApiKey: false,
+    keyFlag: "local-key",
+    settings: [
+      {
+        name: "baseURL",
+        flag: "local-url",
+        description: "Set the base URL of a local OpenAI-compatible server",
+        envVar: "LLMPEG_LOCAL_BASE_URL",
+        default: "http://localhost:11434/v1",
+      },
+      {
+        name: "defaultModel",
+        flag: "local-model",
+        description: "Set the model name for the local server",
+        envVar: "LLMPEG_LOCAL_MODEL",
+      },
+    ],
+    createModel: (model, { apiKey, baseURL }) =>
+      createOpenAI({
+        name: "local",
+        baseURL,
+        // Most local servers ignore the key, but the client requires one
+        apiKey: apiKey || "local",
+        compatibility: "compatible",
+      })(model),
+  },
+};
+
+export const PROVIDERS: ProviderDefinition[] = PROVIDER_IDS.map(
+  (id) => providerRegistry[id],
+);
+
+export function getProvider(id: string): ProviderDefinition | undefined {
+  return providerRegistry[id.toLowerCase() as ProviderId];
+}
+
+export function isProviderId(id: string): id is ProviderId {
+  return (PROVIDER_IDS as readonly string[]).includes(id);
+}
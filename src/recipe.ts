@@ -0,0 +1,192 @@
+import { rmSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { quoteArgument } from "./argv.js";
+import { executeCommand } from "./executor.js";
+import type { ExecuteOptions } from "./executor.js";
+
+export interface RecipeStep {
+  command: string;
+  // What the step does, e.g. "Generate the palette"
+  description: string;
+}
+
+/**
+ * An ordered list of commands for tasks one ffmpeg run can't do well, like
+ * palettegen then paletteuse or two-pass encoding. Steps write intermediate
+ * files as {tmp}/<name> and can use values an earlier step printed as JSON
+ * (loudnorm's print_format=json analysis) as {stepN.key}.
+ */
+export interface Recipe {
+  steps: RecipeStep[];
+  // Names of the intermediate files written to {tmp}
+  tempFiles: string[];
+}
+
+export interface RecipeRunOptions {
+  // Called before each step; the returned options are used to execute it
+  onStep?: (step: RecipeStep, index: number) => ExecuteOptions | void;
+  // Called after each step, whether it succeeded or not
+  onStepEnd?: (step: RecipeStep, index: number) => void;
+}
+
+export class RecipeStepError extends Error {
+  constructor(
+    message: string,
+    readonly step: number,
+    readonly cause: unknown,
+  ) {
+    super(message);
+    this.name = "RecipeStepError";
+  }
+}
+
+const TEMP_FILE_PLACEHOLDER = /(["']?)\{tmp\}[/\\]([\w.%-]+)\1/g;
+const STEP_VALUE_PLACEHOLDER = /\{step(\d+)\.(\w+)\}/g;
+
+/**
+ * Build a recipe from the steps a model returned. Fewer than two steps is
+ * just a command, so no recipe is made. Temporary files used in the steps
+ * but missing from tempFiles are added.
+ */
+export function createRecipe(
+  steps: RecipeStep[] | undefined,
+  tempFiles: string[] = [],
+): Recipe | undefined {
+  const cleaned = (steps || [])
+    .map((step) => ({
+      command: step.command.trim(),
+      description: step.description?.trim() || "",
+    }))
+    .filter((step) => step.command);
+  if (cleaned.length < 2) {
+    return undefined;
+  }
+
+  const names = new Set(
+    tempFiles.map((name) => name.replace(/^\{tmp\}\//, "")),
+  );
+  for (const step of cleaned) {
+    for (const match of step.command.matchAll(TEMP_FILE_PLACEHOLDER)) {
+      names.add(match[2]);
+    }
+  }
+
+  return { steps: cleaned, tempFiles: [...names] };
+}
+
+/**
+ * Replace the {tmp}/<name> and {stepN.key} placeholders in a step's
+ * command. Values that haven't been measured are left as they are.
+ */
+export function resolveStepCommand(
+  command: string,
+  tempDir: string,
+  values: Record<number, Record<string, string>> = {},
+): string {
+  return command
+    .replace(TEMP_FILE_PLACEHOLDER, (_match, _quote, name: string) =>
+      quoteArgument(join(tempDir, name)),
+    )
+    .replace(
+      STEP_VALUE_PLACEHOLDER,
+      (match, step: string, key: string) =>
+        values[Number(step)]?.[key] ?? match,
+    );
+}
+
+/**
+ * The keys later steps use from the values the given (1-based) step prints.
+ */
+export function getStepValueKeys(recipe: Recipe, step: number): string[] {
+  const keys = new Set<string>();
+  for (const later of recipe.steps.slice(step)) {
+    for (const match of later.command.matchAll(STEP_VALUE_PLACEHOLDER)) {
+      if (Number(match[1]) === step) keys.add(match[2]);
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Run the steps in order in a fresh temporary directory, which is removed
+ * afterwards whether the recipe succeeded or not. Throws a RecipeStepError
+ * for the first step that fails.
+ */
+export async function runRecipe(
+  recipe: Recipe,
+  options: RecipeRunOptions = {},
+): Promise<void> {
+  const tempDir = mkdtempSync(join(tmpdir(), "llmpeg-"));
+  const values: Record<number, Record<string, string>> = {};
+
+  try {
+    for (const [index, step] of recipe.steps.entries()) {
+      const number = index + 1;
+      const execute = options.onStep?.(step, index) || {};
+      const measured = getStepValueKeys(recipe, number).length > 0;
+      let stderr = "";
+
+      try {
+        const command = resolveStepCommand(step.command, tempDir, values);
+        const missing = command.match(STEP_VALUE_PLACEHOLDER);
+        if (missing) {
+          throw new Error(
+            `${missing.join(", ")} was not printed by an earlier step`,
+          );
+        }
+
+        await executeCommand(command, {
+          ...execute,
+          // Progress tracking lowers the log level, which would hide the values
+          onProgress: measured ? undefined : execute.onProgress,
+          onStderr: (chunk) => {
+            if (measured) stderr += chunk.toString();
+            if (execute.onStderr) {
+              execute.onStderr(chunk);
+            } else {
+              process.stderr.write(chunk);
+            }
+          },
+        });
+      } catch (error) {
+        throw new RecipeStepError(
+          `Step ${number} of ${recipe.steps.length} failed: ${(error as Error).message}`,
+          number,
+          error,
+        );
+      } finally {
+        options.onStepEnd?.(step, index);
+      }
+
+      if (measured) {
+        values[number] = parseJsonValues(stderr);
+      }
+    }
+  } finally {
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Collect the fields of the flat JSON objects ffmpeg printed, such as the
+ * block loudnorm prints with print_format=json.
+ */
+function parseJsonValues(output: string): Record<string, string> {
+  const values: Record<string, string> = {};
+
+  for (const block of output.match(/\{[^{}]*\}/g) || []) {
+    try {
+      const parsed = JSON.parse(block);
+      for (const [key, value] of Object.entries(parsed)) {
+        if (typeof value === "string" || typeof value === "number") {
+          values[key] = String(value);
+        }
+      }
+    } catch {
+      // Not JSON, e.g. part of a log line
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,179 @@
+import { existsSync } from "fs";
+import { resolve, basename } from "path";
+import {
+  parseCommandLine,
+  isLocalPath,
+  getCommandFiles,
+  findShellOperators,
+} from "./argv.js";
+import type { Recipe } from "./recipe.js";
+
+export type ExecutionPolicy = "strict" | "confirm" | "off";
+
+export const EXECUTION_POLICIES: ExecutionPolicy[] = [
+  "strict",
+  "confirm",
+  "off",
+];
+
+export interface SafetyIssue {
+  severity: "block" | "warn";
+  message: string;
+}
+
+export interface SafetyReport {
+  allowed: boolean;
+  requiresConfirmation: boolean;
+  issues: SafetyIssue[];
+}
+
+const ALLOWED_BINARIES = ["ffmpeg", "ffprobe"];
+
+/**
+ * Inspect a generated command before it is executed.
+ *
+ * - strict: any finding blocks execution
+ * - confirm: unsupported binaries and shell operators are blocked, everything
+ *   else needs confirmation
+ * - off: no checks are performed
+ */
+export function checkCommandSafety(
+  command: string,
+  policy: ExecutionPolicy = "confirm",
+): SafetyReport {
+  if (policy === "off") {
+    return { allowed: true, requiresConfirmation: false, issues: [] };
+  }
+
+  const issues: SafetyIssue[] = [];
+
+  const operators = findShellOperators(command);
+  if (operators.length > 0) {
+    issues.push({
+      severity: "block",
+      message: `Command contains shell operators (${operators.join(" ")}). Commands run without a shell, so these would not chain, pipe or substitute anything: ffmpeg would get them as literal arguments.`,
+    });
+  }
+
+  let args: string[] = [];
+  try {
+    args = parseCommandLine(command);
+  } catch (error) {
+    issues.push({
+      severity: "block",
+      message: `Command could not be parsed: ${(error as Error).message}`,
+    });
+  }
+
+  if (args.length > 0) {
+    const binary = basename(args[0])
+      .replace(/\.exe$/i, "")
+      .toLowerCase();
+    if (!ALLOWED_BINARIES.includes(binary)) {
+      issues.push({
+        severity: "block",
+        message: `Command runs "${args[0]}" instead of ${ALLOWED_BINARIES.join(" or ")}.`,
+      });
+    } else {
+      issues.push(...checkFiles(args));
+    }
+  } else if (!issues.some((issue) => issue.severity === "block")) {
+    issues.push({ severity: "block", message: "Command is empty." });
+  }
+
+  const blocked =
+    policy === "strict"
+      ? issues.length > 0
+      : issues.some((issue) => issue.severity === "block");
+
+  return {
+    allowed: !blocked,
+    requiresConfirmation: !blocked && issues.length > 0,
+    issues,
+  };
+}
+
+/**
+ * Check every step of a recipe; the recipe is only as allowed as its least
+ * safe step.
+ */
+export function checkRecipeSafety(
+  recipe: Recipe,
+  policy: ExecutionPolicy = "confirm",
+): SafetyReport {
+  const reports = recipe.steps.map((step) =>
+    checkCommandSafety(step.command, policy),
+  );
+  const issues = reports.flatMap((report, index) =>
+    report.issues.map((issue) => ({
+      ...issue,
+      message: `Step ${index + 1}: ${issue.message}`,
+    })),
+  );
+  const allowed = reports.every((report) => report.allowed);
+
+  return {
+    allowed,
+    requiresConfirmation: allowed && issues.length > 0,
+    issues,
+  };
+}
+
+function checkFiles(args: string[]): SafetyIssue[] {
+  const issues: SafetyIssue[] = [];
+  const { inputs, outputs } = getCommandFiles(args);
+  const overwrite = args.includes("-y");
+  const inputPaths = new Set(inputs.filter(isLocalPath).map((p) => resolve(p)));
+
+  for (const output of outputs.filter(isLocalPath)) {
+    if (inputPaths.has(resolve(output))) {
+      issues.push({
+        severity: "warn",
+        message: `Output "${output}" is also an input. FFmpeg cannot read and write the same file, and the original may be destroyed.`,
+      });
+    } else if (overwrite && existsSync(output)) {
+      issues.push({
+        severity: "warn",
+        message: `Output "${output}" already exists and -y will overwrite it without asking.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check the command for every file of a batch. Findings shared by all
+ * files, like shell operators in the template, are listed once; the rest
+ * name the input they're about.
+ */
+export function checkBatchSafety(
+  files: { input: string; command: string }[],
+  policy: ExecutionPolicy = "confirm",
+): SafetyReport {
+  const reports = files.map((file) => checkCommandSafety(file.command, policy));
+  const found = new Map<string, { issue: SafetyIssue; inputs: string[] }>();
+  reports.forEach((report, index) => {
+    for (const issue of report.issues) {
+      const key = `${issue.severity} ${issue.message}`;
+      const entry = found.get(key) || { issue, inputs: [] };
+      entry.inputs.push(files[index].input);
+      found.set(key, entry);
+    }
+  });
+
+  const issues = [...found.values()].map(({ issue, inputs }) => ({
+    ...issue,
+    message:
+      inputs.length === files.length && files.length > 1
+        ? `${issue.message} (all ${files.length} files)`
+        : `${inputs.map((input) => basename(input)).join(", ")}: ${issue.message}`,
+  }));
+  const allowed = reports.every((report) => report.allowed);
+
+  return {
+    allowed,
+    requiresConfirmation: allowed && issues.length > 0,
+    issues,
+  };
+}
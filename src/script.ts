@@ -0,0 +1,406 @@
+import { extname, basename } from "path";
+import {
+  quoteArgument,
+  parseCommandLine,
+  isLocalPath,
+  getCommandFiles,
+} from "./argv.js";
+import { getStepValueKeys } from "./recipe.js";
+import type { Recipe } from "./recipe.js";
+
+export const SCRIPT_SHELLS = ["bash", "powershell"] as const;
+
+export type ScriptShell = (typeof SCRIPT_SHELLS)[number];
+
+export interface ScriptCommand {
+  command: string;
+  recipe?: Recipe;
+  // Written above the command, e.g. the prompt it was generated for
+  comment?: string;
+}
+
+export interface ScriptOptions {
+  shell: ScriptShell;
+  // Written at the top of the script
+  description?: string;
+}
+
+interface ScriptStep {
+  argv: string[];
+  // 1-based position in its recipe
+  number: number;
+  description?: string;
+  // Keys of the values later steps read from this step's output
+  captures: string[];
+}
+
+interface ScriptFile {
+  kind: "input" | "output";
+  name: string;
+}
+
+// How each shell spells the pieces of a script
+interface ShellSyntax {
+  // Variable holding the temporary directory of recipes
+  tempDir: string;
+  shebang: string[];
+  prologue: string[];
+  fileVariable: (kind: ScriptFile["kind"], number?: number) => string;
+  valueVariable: (step: number, key: string) => string;
+  assign: (name: string, value: string) => string;
+  // A variable as a whole argument
+  reference: (name: string) => string;
+  // A variable inside a double-quoted string
+  interpolate: (name: string) => string;
+  quote: (arg: string) => string;
+  // Escape text for a double-quoted string
+  escape: (text: string) => string;
+  requireBinary: (binary: string) => string[];
+  // Helper that reads a printed value from a step's output
+  valueReader: string[];
+  run: (command: string, binary: string) => string[];
+  runAndCapture: (
+    command: string,
+    binary: string,
+    step: ScriptStep,
+  ) => string[];
+  withTempDir: (body: string[]) => string[];
+}
+
+// Placeholders left in recipe steps once the command line is tokenized
+const PLACEHOLDER = /\{tmp\}[/\\]([\w.%-]+)|\{step(\d+)\.(\w+)\}/g;
+
+const bash: ShellSyntax = {
+  tempDir: "TMP_DIR",
+  shebang: ["#!/usr/bin/env bash", "#"],
+  prologue: ["set -euo pipefail"],
+  fileVariable: (kind, number) =>
+    `${kind.toUpperCase()}${number ? `_${number}` : ""}`,
+  valueVariable: (step, key) =>
+    `STEP${step}_${key.toUpperCase().replace(/\W/g, "_")}`,
+  assign: (name, value) => `${name}=${quoteArgument(value)}`,
+  reference: (name) => `"$${name}"`,
+  interpolate: (name) => `\${${name}}`,
+  quote: quoteArgument,
+  escape: (text) => text.replace(/[\\"$`]/g, "\\$&"),
+  requireBinary: (binary) => [
+    `if ! command -v ${quoteArgument(binary)} >/dev/null 2>&1; then`,
+    `  echo "${bash.escape(binary)} is required but was not found on PATH" >&2`,
+    "  exit 1",
+    "fi",
+  ],
+  valueReader: [
+    '# Last "key" : "value" pair in a log, as printed by e.g. loudnorm',
+    "read_value() {",
+    "  local value",
+    `  value="$(${readBashValue('"$1"', `'"$2"'`)})"`,
+    '  if [ -z "$value" ]; then',
+    '    echo "$2 was not found in the output of the previous step" >&2',
+    "    return 1",
+    "  fi",
+    '  echo "$value"',
+    "}",
+  ],
+  run: (command) => [command],
+  runAndCapture: (command, _binary, step) => {
+    const log = `"$TMP_DIR/step${step.number}.log"`;
+    return [
+      `${command} 2>&1 | tee ${log}`,
+      ...step.captures.map(
+        (key) =>
+          `${bash.valueVariable(step.number, key)}="$(read_value ${log} ${quoteArgument(key)})"`,
+      ),
+    ];
+  },
+  withTempDir: (body) => [
+    'TMP_DIR="$(mktemp -d)"',
+    `trap 'rm -rf "$TMP_DIR"' EXIT`,
+    "",
+    ...body,
+  ],
+};
+
+const powershell: ShellSyntax = {
+  tempDir: "TmpDir",
+  shebang: [],
+  prologue: [],
+  // $Input is an automatic variable in PowerShell
+  fileVariable: (kind, number) =>
+    `${kind === "input" ? "Input" : "Output"}File${number ?? ""}`,
+  valueVariable: (step, key) => `Step${step}_${key.replace(/\W/g, "_")}`,
+  assign: (name, value) => `$${name} = ${powershellLiteral(value)}`,
+  reference: (name) => `$${name}`,
+  interpolate: (name) => `\${${name}}`,
+  // Commas, braces, parentheses and the like mean something to PowerShell
+  quote: (arg) => (/^[\w./\\:=+%-]+$/.test(arg) ? arg : powershellLiteral(arg)),
+  escape: (text) => text.replace(/[`"$]/g, "`$&"),
+  requireBinary: (binary) => [
+    `if (-not (Get-Command ${powershellLiteral(binary)} -ErrorAction SilentlyContinue)) {`,
+    `  Write-Error "${powershell.escape(binary)} is required but was not found on PATH"`,
+    "  exit 1",
+    "}",
+  ],
+  valueReader: [
+    '# Last "key" : "value" pair in a log, as printed by e.g. loudnorm',
+    "function Read-Value([string]$Log, [string]$Key) {",
+    `  $found = [regex]::Matches($Log, '"' + [regex]::Escape($Key) + '"\\s*:\\s*"?([^",\\s]+)')`,
+    "  if ($found.Count -eq 0) {",
+    '    throw "$Key was not found in the output of the previous step"',
+    "  }",
+    "  $found[$found.Count - 1].Groups[1].Value",
+    "}",
+  ],
+  run: (command, binary) => [`& ${command}`, powershellExitCheck(binary)],
+  runAndCapture: (command, binary, step) => {
+    const log = `$Step${step.number}Log`;
+    return [
+      `${log} = & ${command} 2>&1 | ForEach-Object { "$_" } | Out-String`,
+      `Write-Host ${log}`,
+      powershellExitCheck(binary),
+      ...step.captures.map(
+        (key) =>
+          `\${${powershell.valueVariable(step.number, key)}} = Read-Value ${log} ${powershellLiteral(key)}`,
+      ),
+    ];
+  },
+  withTempDir: (body) => [
+    "$TmpDir = Join-Path ([System.IO.Path]::GetTempPath()) ([System.IO.Path]::GetRandomFileName())",
+    "New-Item -ItemType Directory -Path $TmpDir -ErrorAction Stop | Out-Null",
+    "try {",
+    ...body.map((line) => (line ? `  ${line}` : line)),
+    "} finally {",
+    "  Remove-Item -Recurse -Force $TmpDir",
+    "}",
+  ],
+};
+
+const SHELLS: Record<ScriptShell, ShellSyntax> = { bash, powershell };
+
+/**
+ * A recipe as one bash command line that can be pasted into a terminal, for
+ * history and the clipboard. The steps run in a subshell that stops at the
+ * first failure, with a temporary directory that is removed when it exits.
+ */
+export function formatRecipeCommand(recipe: Recipe): string {
+  const commands = toSteps({ command: "", recipe }).flatMap((step) => {
+    const command = step.argv
+      .map((arg) => renderArgument(arg, new Map(), bash))
+      .join(" ");
+    if (step.captures.length === 0) {
+      return [command];
+    }
+
+    const log = `"$TMP_DIR/step${step.number}.log"`;
+    return [
+      `${command} 2>&1 | tee ${log}`,
+      ...step.captures.flatMap((key) => {
+        const name = bash.valueVariable(step.number, key);
+        return [
+          `${name}="$(${readBashValue(log, key)})"`,
+          `[ -n "$${name}" ] || { echo "${key} was not found in the output of step ${step.number}" >&2; exit 1; }`,
+        ];
+      }),
+    ];
+  });
+
+  return `(set -eo pipefail; TMP_DIR="$(mktemp -d)"; trap 'rm -rf "$TMP_DIR"' EXIT; ${commands.join("; ")})`;
+}
+
+/**
+ * Pick the shell from a script's file name: .ps1 is PowerShell, anything
+ * else bash.
+ */
+export function getScriptShell(path: string): ScriptShell {
+  return extname(path).toLowerCase() === ".ps1" ? "powershell" : "bash";
+}
+
+/**
+ * Write commands as a standalone script. Input and output files become
+ * variables at the top, the script checks that the binaries it runs are
+ * installed, and it stops at the first failing command. Recipe steps write
+ * their temporary files to a directory that is removed when the script ends.
+ */
+export function buildScript(
+  commands: ScriptCommand[],
+  options: ScriptOptions,
+): string {
+  const syntax = SHELLS[options.shell];
+  const groups = commands.map(toSteps);
+  const steps = groups.flat();
+  const files = collectFiles(steps, syntax);
+  const date = new Date().toISOString().slice(0, 10);
+
+  const lines = [
+    ...syntax.shebang,
+    ...(options.description ? comment(options.description) : []),
+    ...(options.description ? ["#"] : []),
+    `# Generated by llmpeg on ${date}.`,
+    "",
+    ...syntax.prologue,
+  ];
+  if (lines[lines.length - 1] !== "") lines.push("");
+
+  for (const kind of ["input", "output"] as const) {
+    const ofKind = [...files].filter(([, file]) => file.kind === kind);
+    if (ofKind.length === 0) continue;
+    lines.push(
+      kind === "input"
+        ? "# Input files (change these to run on other files)"
+        : "# Output files",
+      ...ofKind.map(([path, file]) => syntax.assign(file.name, path)),
+      "",
+    );
+  }
+
+  const binaries = new Set(steps.map((step) => step.argv[0]));
+  lines.push(...[...binaries].flatMap(syntax.requireBinary), "");
+  if (steps.some((step) => step.captures.length > 0)) {
+    lines.push(...syntax.valueReader, "");
+  }
+
+  const body: string[] = [];
+  groups.forEach((group, index) => {
+    const { comment: text, recipe } = commands[index];
+    if (body.length > 0) body.push("");
+    if (text) body.push(...comment(text));
+
+    for (const step of group) {
+      if (recipe) {
+        const description = step.description ? `: ${step.description}` : "";
+        body.push(`# Step ${step.number}${description}`);
+      }
+      const command = step.argv
+        .map((arg) => renderArgument(arg, files, syntax))
+        .join(" ");
+      const binary = basename(step.argv[0]);
+      body.push(
+        ...(step.captures.length > 0
+          ? syntax.runAndCapture(command, binary, step)
+          : syntax.run(command, binary)),
+      );
+    }
+  });
+
+  const usesTempDir = commands.some((command) => command.recipe);
+  lines.push(...(usesTempDir ? syntax.withTempDir(body) : body));
+  return `${lines.join("\n")}\n`;
+}
+
+function toSteps(command: ScriptCommand): ScriptStep[] {
+  const steps: { command: string; description?: string }[] = command.recipe
+    ?.steps ?? [{ command: command.command }];
+
+  return steps.map((step, index) => {
+    let argv: string[];
+    try {
+      argv = parseCommandLine(step.command);
+    } catch (error) {
+      throw new Error(
+        `Could not parse "${step.command}": ${(error as Error).message}`,
+      );
+    }
+    if (argv.length === 0) {
+      throw new Error("Cannot write an empty command to a script");
+    }
+
+    return {
+      argv,
+      number: index + 1,
+      description: step.description,
+      captures: command.recipe
+        ? getStepValueKeys(command.recipe, index + 1)
+        : [],
+    };
+  });
+}
+
+/**
+ * Give every local input and output file a variable, numbered when there is
+ * more than one of a kind. A file written by one command and read by a later
+ * one keeps its output name.
+ */
+function collectFiles(
+  steps: ScriptStep[],
+  syntax: ShellSyntax,
+): Map<string, ScriptFile> {
+  const files = new Map<string, ScriptFile>();
+
+  for (const { argv } of steps) {
+    const { inputs, outputs } = getCommandFiles(argv);
+    const found = [
+      ...inputs.map((path) => [path, "input"] as const),
+      ...outputs.map((path) => [path, "output"] as const),
+    ];
+    for (const [path, kind] of found) {
+      // Temporary files live in the recipe's directory instead
+      if (!files.has(path) && isLocalPath(path) && !path.includes("{tmp}")) {
+        files.set(path, { kind, name: "" });
+      }
+    }
+  }
+
+  for (const kind of ["input", "output"] as const) {
+    const ofKind = [...files.values()].filter((file) => file.kind === kind);
+    ofKind.forEach((file, index) => {
+      file.name = syntax.fileVariable(
+        kind,
+        ofKind.length > 1 ? index + 1 : undefined,
+      );
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Render one argument: file paths become their variables, and recipe
+ * placeholders the temporary directory or a captured value.
+ */
+function renderArgument(
+  arg: string,
+  files: Map<string, ScriptFile>,
+  syntax: ShellSyntax,
+): string {
+  const file = files.get(arg);
+  if (file) {
+    return syntax.reference(file.name);
+  }
+
+  const matches = [...arg.matchAll(PLACEHOLDER)];
+  if (matches.length === 0) {
+    return syntax.quote(arg);
+  }
+
+  let rendered = "";
+  let last = 0;
+  for (const match of matches) {
+    rendered += syntax.escape(arg.slice(last, match.index));
+    rendered +=
+      match[1] !== undefined
+        ? `${syntax.interpolate(syntax.tempDir)}/${syntax.escape(match[1])}`
+        : syntax.interpolate(syntax.valueVariable(Number(match[2]), match[3]));
+    last = match.index! + match[0].length;
+  }
+  rendered += syntax.escape(arg.slice(last));
+  return `"${rendered}"`;
+}
+
+/**
+ * A sed pipeline printing the last "key" : "value" pair in a log. The key is
+ * spliced into a single-quoted sed script.
+ */
+function readBashValue(log: string, key: string): string {
+  return `sed -n 's/.*"${key}"[[:space:]]*:[[:space:]]*"\\{0,1\\}\\([^",]*\\)"\\{0,1\\}.*/\\1/p' ${log} | tail -n 1`;
+}
+
+function comment(text: string): string[] {
+  return text.split("\n").map((line) => (line ? `# ${line}` : "#"));
+}
+
+function powershellLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function powershellExitCheck(binary: string): string {
+  return `if ($LASTEXITCODE -ne 0) { throw "${powershell.escape(binary)} exited with code $LASTEXITCODE" }`;
+}
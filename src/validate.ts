@@ -0,0 +1,322 @@
+import { execFile } from "child_process";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { resolve, join, basename } from "path";
+import {
+  parseCommandLine,
+  isLocalPath,
+  getCommandOptions,
+  getCommandInputs,
+  getCommandFiles,
+  findShellOperators,
+  buildTrialArgs,
+} from "./argv.js";
+import type { CommandInput } from "./argv.js";
+import { findUnavailableFeatures, detectCapabilities } from "./capabilities.js";
+import type { FfmpegCapabilities } from "./capabilities.js";
+import { resolveStepCommand } from "./recipe.js";
+import type { Recipe } from "./recipe.js";
+
+export type ValidationStatus = "pass" | "warn" | "fail";
+
+export interface ValidationIssue {
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ValidationResult {
+  status: ValidationStatus;
+  issues: ValidationIssue[];
+  // Outcome of the short null-muxer run
+  trial: "passed" | "failed" | "timeout" | "skipped";
+  checkedAt: number;
+}
+
+export interface ValidateOptions {
+  // Checked against the detected local ffmpeg when omitted
+  capabilities?: FfmpegCapabilities;
+  // Run the command for a fraction of a second into the null muxer
+  trial?: boolean;
+  // Files an earlier recipe step will have written, so they needn't exist yet
+  pendingFiles?: string[];
+}
+
+const TRIAL_SECONDS = 0.1;
+const TRIAL_TIMEOUT_MS = 20_000;
+
+// Input formats that capture from a device instead of reading a file
+const DEVICE_FORMATS = new Set([
+  "alsa",
+  "avfoundation",
+  "decklink",
+  "dshow",
+  "fbdev",
+  "gdigrab",
+  "jack",
+  "kmsgrab",
+  "openal",
+  "oss",
+  "pulse",
+  "sndio",
+  "v4l2",
+  "vfwcap",
+  "x11grab",
+]);
+
+// Options ffmpeg handles itself rather than listing in `-h full`
+const BUILTIN_OPTIONS = new Set(["i"]);
+
+/**
+ * Check a generated command against the local ffmpeg without running it for
+ * real: option, encoder and filter names must exist in the build, input files
+ * must exist, and where the inputs allow it a trial run encodes a tenth of a
+ * second into the null muxer.
+ *
+ * Errors mean the command will fail ("fail"); warnings mean something could
+ * not be checked or looks off ("warn").
+ */
+export async function validateCommand(
+  command: string,
+  options: ValidateOptions = {},
+): Promise<ValidationResult> {
+  const issues: ValidationIssue[] = [];
+  const finish = (trial: ValidationResult["trial"]): ValidationResult => ({
+    status: getStatus(issues),
+    issues,
+    trial,
+    checkedAt: Date.now(),
+  });
+
+  let args: string[];
+  try {
+    args = parseCommandLine(command);
+  } catch (error) {
+    issues.push({
+      severity: "error",
+      message: `Command could not be parsed: ${(error as Error).message}`,
+    });
+    return finish("skipped");
+  }
+
+  if (args.length === 0 || !isFfmpeg(args[0])) {
+    issues.push({
+      severity: "warning",
+      message: "Only ffmpeg commands can be validated.",
+    });
+    return finish("skipped");
+  }
+
+  const operators = findShellOperators(command);
+  if (operators.length > 0) {
+    issues.push({
+      severity: "warning",
+      message: `Command contains shell operators (${operators.join(" ")}), so it was not checked as a single ffmpeg run.`,
+    });
+  }
+
+  const inputs = getCommandInputs(args);
+  issues.push(...checkInputs(inputs, options.pendingFiles));
+
+  const capabilities = options.capabilities ?? (await detectCapabilities());
+  if (!capabilities) {
+    issues.push({
+      severity: "warning",
+      message: "ffmpeg was not found, so options and filters were not checked.",
+    });
+    return finish("skipped");
+  }
+
+  issues.push(...checkOptions(args, capabilities));
+  issues.push(
+    ...findUnavailableFeatures(args, capabilities).map(
+      (message): ValidationIssue => ({ severity: "error", message }),
+    ),
+  );
+
+  if (
+    options.trial === false ||
+    operators.length > 0 ||
+    issues.some((issue) => issue.severity === "error") ||
+    !canRunTrial(args, inputs)
+  ) {
+    return finish("skipped");
+  }
+
+  const trialIssue = await runTrial(capabilities.path, args);
+  if (trialIssue) {
+    issues.push(trialIssue);
+  }
+  return finish(
+    !trialIssue
+      ? "passed"
+      : trialIssue.severity === "error"
+        ? "failed"
+        : "timeout",
+  );
+}
+
+/**
+ * Validate every step of a recipe. Inputs written by earlier steps aren't
+ * expected to exist yet, and only the first step gets a trial run since the
+ * later ones need its output.
+ */
+export async function validateRecipe(
+  recipe: Recipe,
+  options: ValidateOptions = {},
+): Promise<ValidationResult> {
+  const capabilities = options.capabilities ?? (await detectCapabilities());
+  // Stands in for the temporary directory, which only exists while running
+  const tempDir = join(tmpdir(), "llmpeg-recipe");
+  const pendingFiles: string[] = [];
+  const seen = new Set<string>();
+  const issues: ValidationIssue[] = [];
+  let trial: ValidationResult["trial"] = "skipped";
+
+  for (const [index, step] of recipe.steps.entries()) {
+    const command = resolveStepCommand(step.command, tempDir);
+    const result = await validateCommand(command, {
+      capabilities,
+      trial: index === 0 && options.trial !== false,
+      pendingFiles,
+    });
+    if (index === 0) {
+      trial = result.trial;
+    }
+
+    for (const issue of result.issues) {
+      // e.g. ffmpeg not being installed is reported once, not for every step
+      if (seen.has(issue.message)) continue;
+      seen.add(issue.message);
+      issues.push({ ...issue, message: `Step ${index + 1}: ${issue.message}` });
+    }
+
+    try {
+      pendingFiles.push(...getCommandFiles(parseCommandLine(command)).outputs);
+    } catch {
+      // Already reported as unparseable
+    }
+  }
+
+  return { status: getStatus(issues), issues, trial, checkedAt: Date.now() };
+}
+
+function getStatus(issues: ValidationIssue[]): ValidationStatus {
+  if (issues.some((issue) => issue.severity === "error")) {
+    return "fail";
+  }
+  return issues.length > 0 ? "warn" : "pass";
+}
+
+function isFfmpeg(binary: string): boolean {
+  return (
+    basename(binary)
+      .replace(/\.exe$/i, "")
+      .toLowerCase() === "ffmpeg"
+  );
+}
+
+/**
+ * Image sequences ("frame_%04d.png") and globs can't be checked with a
+ * plain existence test.
+ */
+function isPattern(path: string): boolean {
+  return /%\d*d/.test(path) || /[*?[]/.test(path);
+}
+
+function isFileInput(input: CommandInput): boolean {
+  return (
+    input.format !== "lavfi" &&
+    !DEVICE_FORMATS.has(input.format ?? "") &&
+    isLocalPath(input.path)
+  );
+}
+
+function checkInputs(
+  inputs: CommandInput[],
+  pendingFiles: string[] = [],
+): ValidationIssue[] {
+  const pending = new Set(pendingFiles.map((path) => resolve(path)));
+  return inputs
+    .filter(
+      (input) =>
+        isFileInput(input) &&
+        !isPattern(input.path) &&
+        !pending.has(resolve(input.path)) &&
+        !existsSync(input.path),
+    )
+    .map((input) => ({
+      severity: "error",
+      message: `Input file "${input.path}" does not exist`,
+    }));
+}
+
+function checkOptions(
+  args: string[],
+  capabilities: FfmpegCapabilities,
+): ValidationIssue[] {
+  const known = new Set(capabilities.options);
+  if (known.size === 0) {
+    return [];
+  }
+
+  return getCommandOptions(args)
+    .filter(
+      (name) =>
+        !known.has(name) &&
+        !BUILTIN_OPTIONS.has(name) &&
+        // Boolean options can be negated with a "no" prefix
+        !(name.startsWith("no") && known.has(name.slice(2))),
+    )
+    .map((name) => ({
+      severity: "error",
+      message: `Option "-${name}" is not recognized by your ffmpeg`,
+    }));
+}
+
+/**
+ * A trial run is only safe when every input is a local file or a lavfi
+ * source: devices would start capturing, URLs may be slow or unreachable,
+ * stdin would block, and two-pass encodes write log files.
+ */
+function canRunTrial(args: string[], inputs: CommandInput[]): boolean {
+  return (
+    inputs.length > 0 &&
+    !args.includes("-pass") &&
+    inputs.every((input) => input.format === "lavfi" || isFileInput(input))
+  );
+}
+
+function runTrial(
+  path: string,
+  args: string[],
+): Promise<ValidationIssue | undefined> {
+  const [, ...trialArgs] = buildTrialArgs(args, TRIAL_SECONDS);
+
+  return new Promise((resolve) => {
+    execFile(
+      path,
+      ["-hide_banner", "-nostdin", "-loglevel", "error", ...trialArgs],
+      { timeout: TRIAL_TIMEOUT_MS, maxBuffer: 4 * 1024 * 1024 },
+      (error, _stdout, stderr) => {
+        if (!error) {
+          resolve(undefined);
+        } else if (error.killed) {
+          resolve({
+            severity: "warning",
+            message: `Trial run did not finish within ${TRIAL_TIMEOUT_MS / 1000} seconds`,
+          });
+        } else {
+          const lastLine = stderr
+            .split(/\r?\n/)
+            .map((line) => line.trim())
+            .filter(Boolean)
+            .pop();
+          resolve({
+            severity: "error",
+            message: `Trial run failed: ${lastLine || error.message}`,
+          });
+        }
+      },
+    );
+  });
+}
@@ -0,0 +1,410 @@
+import {
+  writeFileSync,
+  unlinkSync,
+  statSync,
+  renameSync,
+  readFileSync,
+  readdirSync,
+  mkdirSync,
+  existsSync,
+  copyFileSync,
+  appendFileSync,
+} from "fs";
+import { join, extname, dirname, basename } from "path";
+import { runBatch, planBatch } from "./batch.js";
+import type { BatchResult } from "./batch.js";
+
+export type WatchLogLevel = "info" | "error";
+
+export interface WatchOptions {
+  dir: string;
+  // Command template with {input} and {output} placeholders
+  template: string;
+  outputDir: string;
+  // Inputs whose command failed are moved here, next to an .error.txt
+  quarantineDir: string;
+  logFile: string;
+  // Which inputs were processed, so a restart skips them and retries unfinished ones
+  stateFile: string;
+  // Milliseconds between scans of the folder
+  interval: number;
+  // Milliseconds a file's size and mtime must stay unchanged before it counts as fully written
+  settle: number;
+  // Also process files that were already in the folder at start
+  existing?: boolean;
+  // Marks the running command as cancelled rather than failed (Ctrl-C reaches ffmpeg too)
+  signal?: AbortSignal;
+  onLog?: (level: WatchLogLevel, message: string) => void;
+  onResult?: (result: BatchResult) => void;
+}
+
+interface ProcessedFile {
+  mtimeMs: number;
+  output: string;
+  // "started" until the command succeeds, so an interrupted file is retried
+  status: "started" | "done";
+}
+
+interface PendingFile {
+  size: number;
+  mtimeMs: number;
+  stableSince: number;
+}
+
+const MEDIA_EXTENSIONS = new Set([
+  ".3gp",
+  ".aac",
+  ".aif",
+  ".aiff",
+  ".avi",
+  ".flac",
+  ".flv",
+  ".gif",
+  ".m2ts",
+  ".m4a",
+  ".m4v",
+  ".mkv",
+  ".mov",
+  ".mp3",
+  ".mp4",
+  ".mpeg",
+  ".mpg",
+  ".mts",
+  ".mxf",
+  ".ogg",
+  ".opus",
+  ".ts",
+  ".wav",
+  ".webm",
+  ".wma",
+  ".wmv",
+]);
+
+/**
+ * Poll a folder for new media files and run a command template on each one,
+ * one file at a time. Files are picked up once their size and modification
+ * time have stopped changing, so copies still in progress are left alone.
+ * Only the top level of the folder is watched, which keeps the output and
+ * quarantine folders out of the way when they live inside it.
+ */
+export class FolderWatcher {
+  private readonly pending = new Map<string, PendingFile>();
+  // Modification time of every file already handled (or present at start)
+  private readonly seen = new Map<string, number>();
+  // Saved in the state file, by file name
+  private processed: Record<string, ProcessedFile> = {};
+  private queue: string[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private running?: Promise<void>;
+  private stopping = false;
+
+  constructor(private readonly options: WatchOptions) {}
+
+  start(): void {
+    const { dir, outputDir, quarantineDir, logFile } = this.options;
+    if (!existsSync(dir) || !statSync(dir).isDirectory()) {
+      throw new Error(`"${dir}" is not a directory`);
+    }
+    for (const path of [outputDir, quarantineDir, dirname(logFile)]) {
+      mkdirSync(path, { recursive: true });
+    }
+
+    // Files processed by an earlier run are skipped and unfinished ones
+    // retried, whether or not the rest of the folder is processed
+    this.processed = this.loadState();
+    for (const path of this.scan()) {
+      const stats = safeStat(path);
+      if (!stats) continue;
+      const record = this.processed[basename(path)];
+      const skip =
+        record?.mtimeMs === stats.mtimeMs
+          ? record.status === "done"
+          : !this.options.existing;
+      if (skip) this.seen.set(path, stats.mtimeMs);
+    }
+
+    this.log("info", `Watching ${dir}`);
+    this.poll();
+    this.timer = setInterval(() => this.poll(), this.options.interval);
+  }
+
+  /**
+   * Stop picking up files and wait for the one being processed to finish.
+   */
+  async stop(): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+    this.stopping = true;
+    clearInterval(this.timer);
+
+    const skipped = this.queue.length;
+    this.queue = [];
+    if (this.running) {
+      this.log(
+        "info",
+        this.options.signal?.aborted
+          ? "Waiting for the current command to stop..."
+          : "Waiting for the current file to finish...",
+      );
+      await this.running;
+    }
+    this.log(
+      "info",
+      skipped > 0
+        ? `Stopped, ${skipped} queued files were not processed`
+        : "Stopped",
+    );
+  }
+
+  private poll(): void {
+    const now = Date.now();
+    const files = this.scan();
+
+    for (const path of files) {
+      const stats = safeStat(path);
+      if (!stats || this.seen.get(path) === stats.mtimeMs) continue;
+
+      const pending = this.pending.get(path);
+      if (
+        !pending ||
+        pending.size !== stats.size ||
+        pending.mtimeMs !== stats.mtimeMs
+      ) {
+        this.pending.set(path, {
+          size: stats.size,
+          mtimeMs: stats.mtimeMs,
+          stableSince: now,
+        });
+      } else if (now - pending.stableSince >= this.options.settle) {
+        this.pending.delete(path);
+        this.seen.set(path, stats.mtimeMs);
+        this.queue.push(path);
+        this.log("info", `Queued ${basename(path)}`);
+      }
+    }
+
+    // Forget files that were removed, so a new file with the same name is picked up
+    const present = new Set(files);
+    for (const path of [...this.seen.keys(), ...this.pending.keys()]) {
+      if (!present.has(path)) {
+        this.seen.delete(path);
+        this.pending.delete(path);
+        this.forget(path);
+      }
+    }
+
+    this.processNext();
+  }
+
+  private processNext(): void {
+    if (this.running || this.stopping) {
+      return;
+    }
+    const path = this.queue.shift();
+    if (!path) {
+      return;
+    }
+
+    this.running = this.process(path).finally(() => {
+      this.running = undefined;
+      this.processNext();
+    });
+  }
+
+  private async process(path: string): Promise<void> {
+    let file;
+    try {
+      [file] = planBatch(
+        this.options.template,
+        [path],
+        join(this.options.outputDir, "{name}"),
+      );
+    } catch (error) {
+      this.log("error", `${basename(path)}: ${(error as Error).message}`);
+      return;
+    }
+
+    // e.g. clip.mov and clip.mkv, which both map to the same {name}
+    const owner = Object.entries(this.processed).find(
+      ([name, record]) =>
+        name !== basename(path) && record.output === file.output,
+    )?.[0];
+    if (owner) {
+      this.log(
+        "error",
+        `Skipped ${basename(path)}: ${file.output} is the output of ${owner} as well`,
+      );
+      return;
+    }
+
+    this.log("info", `Processing ${basename(path)} → ${file.output}`);
+    this.remember(path, "started", file.output);
+    const [result] = await runBatch([file], {
+      concurrency: 1,
+      signal: this.options.signal,
+    });
+    const seconds = (result.duration / 1000).toFixed(1);
+
+    if (result.status === "success") {
+      this.log("info", `Finished ${basename(path)} in ${seconds}s`);
+      this.remember(path, "done", file.output);
+    } else {
+      // An output that was already there, e.g. when ffmpeg stopped at the
+      // overwrite question, is left alone
+      removePartialOutput(file.output, result.startedAt);
+      if (result.status === "cancelled") {
+        this.log(
+          "info",
+          `Cancelled ${basename(path)}, it is processed again on the next start`,
+        );
+      } else {
+        this.forget(path);
+        const target = this.quarantine(path, result.error || "");
+        this.log(
+          "error",
+          `Failed ${basename(path)} after ${seconds}s, moved to ${target}`,
+        );
+      }
+    }
+
+    this.options.onResult?.(result);
+  }
+
+  /**
+   * Move a failed input out of the watched folder, with ffmpeg's error output
+   * written next to it.
+   */
+  private quarantine(path: string, error: string): string {
+    const ext = extname(path);
+    let target = join(this.options.quarantineDir, basename(path));
+    if (existsSync(target)) {
+      target = join(
+        this.options.quarantineDir,
+        `${basename(path, ext)}-${Date.now()}${ext}`,
+      );
+    }
+
+    try {
+      moveFile(path, target);
+      writeFileSync(`${target}.error.txt`, `${error}\n`);
+    } catch (moveError) {
+      this.log(
+        "error",
+        `Could not quarantine ${basename(path)}: ${(moveError as Error).message}`,
+      );
+    }
+    return target;
+  }
+
+  private remember(
+    path: string,
+    status: ProcessedFile["status"],
+    output: string,
+  ): void {
+    const stats = safeStat(path);
+    if (stats) {
+      this.processed[basename(path)] = {
+        mtimeMs: stats.mtimeMs,
+        output,
+        status,
+      };
+      this.saveState();
+    }
+  }
+
+  private forget(path: string): void {
+    if (this.processed[basename(path)]) {
+      delete this.processed[basename(path)];
+      this.saveState();
+    }
+  }
+
+  private loadState(): Record<string, ProcessedFile> {
+    try {
+      return (
+        JSON.parse(readFileSync(this.options.stateFile, "utf-8")).files ?? {}
+      );
+    } catch {
+      return {};
+    }
+  }
+
+  private saveState(): void {
+    try {
+      writeFileSync(
+        this.options.stateFile,
+        JSON.stringify({ files: this.processed }, null, 2),
+      );
+    } catch (error) {
+      this.log(
+        "error",
+        `Could not save ${this.options.stateFile}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private scan(): string[] {
+    let names: string[];
+    try {
+      names = readdirSync(this.options.dir);
+    } catch {
+      return [];
+    }
+
+    return names
+      .filter(
+        (name) =>
+          !name.startsWith(".") &&
+          MEDIA_EXTENSIONS.has(extname(name).toLowerCase()),
+      )
+      .map((name) => join(this.options.dir, name))
+      .filter((path) => safeStat(path)?.isFile());
+  }
+
+  private log(level: WatchLogLevel, message: string): void {
+    try {
+      appendFileSync(
+        this.options.logFile,
+        `${new Date().toISOString()} ${level.toUpperCase()} ${message}\n`,
+      );
+    } catch {
+      // Keep watching even when the log can't be written
+    }
+    this.options.onLog?.(level, message);
+  }
+}
+
+function safeStat(path: string) {
+  try {
+    return statSync(path);
+  } catch {
+    return undefined;
+  }
+}
+
+function moveFile(from: string, to: string): void {
+  try {
+    renameSync(from, to);
+  } catch (error) {
+    // Renaming doesn't work across file systems
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+    copyFileSync(from, to);
+    unlinkSync(from);
+  }
+}
+
+/**
+ * Delete an output written since the given time, i.e. by the failed run.
+ */
+function removePartialOutput(path: string, since: number | undefined): void {
+  const stats = safeStat(path);
+  if (!stats || since === undefined || stats.mtimeMs < since) {
+    return;
+  }
+  try {
+    unlinkSync(path);
+  } catch {
+    // Already gone
+  }
+}